@@ -0,0 +1,50 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import z from "zod";
+
+/**
+ * A scripted conversation the mock server plays back. Steps run in order:
+ * - `user` simulates the user speaking, which starts the next response
+ * - `say` streams an assistant audio transcript as one response
+ * - `call` makes the assistant call a tool (or a `transfer_to_*` handoff) and
+ *   waits until the client sends the output and asks for the next response
+ * - `pause` waits before the next step
+ */
+const stepSchema = z.union([
+  z.object({ user: z.string().min(1) }).strict(),
+  z.object({ say: z.string().min(1) }).strict(),
+  z
+    .object({
+      call: z.string().min(1),
+      arguments: z.record(z.unknown()).default({}),
+    })
+    .strict(),
+  z.object({ pause: z.number().int().nonnegative() }).strict(),
+]);
+
+export const scenarioSchema = z.object({
+  description: z.string(),
+  /** Delay before each simulated user turn */
+  userDelayMs: z.number().int().nonnegative().default(1500),
+  steps: z.array(stepSchema).min(1),
+});
+
+export type ScenarioStep = z.infer<typeof stepSchema>;
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+const SCENARIO_DIR = path.join(__dirname, "scenarios");
+
+export async function listScenarios() {
+  const files = await readdir(SCENARIO_DIR);
+  return files
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => path.basename(file, ".json"));
+}
+
+export async function loadScenario(name: string): Promise<Scenario> {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid scenario name "${name}"`);
+  }
+  const raw = await readFile(path.join(SCENARIO_DIR, `${name}.json`), "utf8");
+  return scenarioSchema.parse(JSON.parse(raw));
+}
@@ -0,0 +1,602 @@
+/**
+ * Mock Realtime server
+ * A local stand-in for the OpenAI Realtime API that plays back scripted
+ * scenarios, so the voice page can be tested without a network connection.
+ *
+ *   npm run mock:realtime -- --scenario weather-handoff --port 8787
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { parseArgs } from "node:util";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  listScenarios,
+  loadScenario,
+  type Scenario,
+  type ScenarioStep,
+} from "./scenario";
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.MOCK_REALTIME_PORT ?? "8787" },
+    scenario: {
+      type: "string",
+      default: process.env.MOCK_REALTIME_SCENARIO ?? "weather-handoff",
+    },
+  },
+});
+
+const PORT = Number(args.port);
+const DEFAULT_SCENARIO = args.scenario!;
+const WORD_DELAY_MS = 40;
+// 24kHz PCM16 silence for each word, so clients can track playback and
+// interrupt (e.g. when a guardrail trips) as they would with real audio
+const SILENT_WORD_AUDIO = Buffer.alloc(
+  (24_000 * 2 * WORD_DELAY_MS) / 1000
+).toString("base64");
+const FALLBACK_REPLY =
+  "This is the mock Realtime server. The scripted scenario has finished, so there is nothing more to say.";
+
+type Item = Record<string, unknown> & { id: string };
+type ClientEvent = Record<string, unknown> & { type: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Plays one scenario over one WebSocket connection */
+class MockSession {
+  private eventCount = 0;
+  private itemCount = 0;
+  private items = new Map<string, Item>();
+  private lastItemId: string | null = null;
+  private steps: ScenarioStep[];
+  private started = false;
+  private running = false;
+  private closed = false;
+  private cancelledResponses = new Set<string>();
+  private activeResponseId: string | null = null;
+  private waitingForResponse: (() => void) | null = null;
+  /** Text-only sessions get `response.text.*` events instead of audio */
+  private audio = true;
+
+  constructor(private socket: WebSocket, private scenario: Scenario) {
+    this.steps = [...scenario.steps];
+    socket.on("message", (data) => this.onClientEvent(data.toString()));
+    socket.on("close", () => {
+      this.closed = true;
+      this.waitingForResponse?.();
+    });
+  }
+
+  start(model: string) {
+    this.send({
+      type: "session.created",
+      session: {
+        id: `sess_mock_${randomUUID()}`,
+        object: "realtime.session",
+        model,
+      },
+    });
+  }
+
+  private send(event: Record<string, unknown>) {
+    if (this.closed) return;
+    this.socket.send(
+      JSON.stringify({ event_id: `event_mock_${++this.eventCount}`, ...event })
+    );
+  }
+
+  private nextItemId() {
+    return `item_mock_${++this.itemCount}`;
+  }
+
+  private addItem(item: Item) {
+    const previousItemId = this.lastItemId;
+    this.items.set(item.id, item);
+    this.lastItemId = item.id;
+    this.send({
+      type: "conversation.item.created",
+      previous_item_id: previousItemId,
+      item,
+    });
+  }
+
+  /** Reports a client event the mock cannot handle, as the API does */
+  private sendError(message: string, event?: ClientEvent) {
+    this.send({
+      type: "error",
+      error: {
+        type: "invalid_request_error",
+        message,
+        ...(typeof event?.event_id === "string"
+          ? { event_id: event.event_id }
+          : {}),
+      },
+    });
+  }
+
+  private onClientEvent(raw: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.sendError("Invalid JSON");
+      return;
+    }
+    if (!isRecord(parsed) || typeof parsed.type !== "string") {
+      this.sendError("Missing required parameter: 'type'.");
+      return;
+    }
+
+    const event: ClientEvent = { ...parsed, type: parsed.type };
+    try {
+      this.handleClientEvent(event);
+    } catch (error) {
+      console.error(`❌ Could not handle a "${event.type}" event:`, error);
+      this.sendError(`Could not handle the "${event.type}" event.`, event);
+    }
+  }
+
+  private handleClientEvent(event: ClientEvent) {
+    switch (event.type) {
+      case "session.update":
+        if (
+          isRecord(event.session) &&
+          Array.isArray(event.session.modalities)
+        ) {
+          this.audio = event.session.modalities.includes("audio");
+        }
+        this.send({ type: "session.updated", session: event.session });
+        if (!this.started) {
+          this.started = true;
+          this.run();
+        }
+        break;
+      case "conversation.item.create": {
+        if (!isRecord(event.item)) {
+          this.sendError("Missing required parameter: 'item'.", event);
+          break;
+        }
+        const item: Item = {
+          object: "realtime.item",
+          status: "completed",
+          ...event.item,
+          id:
+            typeof event.item.id === "string"
+              ? event.item.id
+              : this.nextItemId(),
+        };
+        this.addItem(item);
+        break;
+      }
+      case "conversation.item.retrieve": {
+        const item =
+          typeof event.item_id === "string"
+            ? this.items.get(event.item_id)
+            : undefined;
+        if (item) {
+          this.send({ type: "conversation.item.retrieved", item });
+        }
+        break;
+      }
+      case "response.create":
+        if (this.waitingForResponse) {
+          this.waitingForResponse();
+        } else if (!this.running) {
+          // Unscripted turn, e.g. a typed message after the scenario ended
+          this.respond({ say: FALLBACK_REPLY });
+        }
+        break;
+      case "response.cancel":
+        if (this.activeResponseId) {
+          this.cancelledResponses.add(this.activeResponseId);
+        }
+        break;
+      case "input_audio_buffer.clear":
+        this.send({ type: "input_audio_buffer.cleared" });
+        break;
+      default:
+        // Audio, truncation and tracing updates need no reply in the mock
+        break;
+    }
+  }
+
+  private waitForResponseCreate() {
+    return new Promise<void>((resolve) => {
+      this.waitingForResponse = () => {
+        this.waitingForResponse = null;
+        resolve();
+      };
+    });
+  }
+
+  private async run() {
+    this.running = true;
+    while (this.steps.length > 0 && !this.closed) {
+      const step = this.steps.shift()!;
+      if ("pause" in step) {
+        await delay(step.pause);
+      } else if ("user" in step) {
+        await delay(this.scenario.userDelayMs);
+        this.simulateUserTurn(step.user);
+      } else {
+        await this.respond(step);
+        if ("call" in step) {
+          await this.waitForResponseCreate();
+        }
+      }
+    }
+    this.running = false;
+  }
+
+  /** Mirrors the events the API sends when server VAD picks up speech */
+  private simulateUserTurn(transcript: string) {
+    const id = this.nextItemId();
+    this.send({
+      type: "input_audio_buffer.speech_started",
+      item_id: id,
+      audio_start_ms: 0,
+    });
+    this.send({
+      type: "input_audio_buffer.speech_stopped",
+      item_id: id,
+      audio_end_ms: transcript.length * 60,
+    });
+    this.send({
+      type: "input_audio_buffer.committed",
+      item_id: id,
+      previous_item_id: this.lastItemId,
+    });
+    this.addItem({
+      id,
+      object: "realtime.item",
+      type: "message",
+      role: "user",
+      status: "completed",
+      content: [{ type: "input_audio", transcript: null }],
+    });
+    // The client retrieves the item after this, which returns the transcript
+    this.items.set(id, {
+      ...this.items.get(id)!,
+      content: [{ type: "input_audio", transcript }],
+    });
+    this.send({
+      type: "conversation.item.input_audio_transcription.completed",
+      item_id: id,
+      content_index: 0,
+      transcript,
+    });
+  }
+
+  private async respond(
+    step: { say: string } | { call: string; arguments: Record<string, unknown> }
+  ) {
+    const responseId = `resp_mock_${randomUUID()}`;
+    const id = this.nextItemId();
+    this.activeResponseId = responseId;
+    this.send({
+      type: "response.created",
+      response: {
+        id: responseId,
+        object: "realtime.response",
+        status: "in_progress",
+        output: [],
+      },
+    });
+
+    const item =
+      "say" in step
+        ? await this.streamMessage(responseId, id, step.say)
+        : this.emitFunctionCall(responseId, id, step.call, step.arguments);
+
+    const cancelled = this.cancelledResponses.has(responseId);
+    this.activeResponseId = null;
+    this.send({
+      type: "response.done",
+      response: {
+        id: responseId,
+        object: "realtime.response",
+        status: cancelled ? "cancelled" : "completed",
+        output: [item],
+        usage: this.estimateUsage(item),
+      },
+    });
+  }
+
+  /**
+   * Rough token counts in the shape the API reports, so usage and cost show
+   * up in the metrics panel: about 4 characters per text token and 8 audio
+   * tokens per spoken word
+   */
+  private estimateUsage(item: Item) {
+    const inputText = 300 + 25 * this.items.size;
+    const output = JSON.stringify(item.content ?? item.arguments ?? "");
+    const outputText = Math.ceil(output.length / 4);
+    const outputAudio =
+      item.type === "message" ? output.split(/\s+/).length * 8 : 0;
+    return {
+      total_tokens: inputText + outputText + outputAudio,
+      input_tokens: inputText,
+      output_tokens: outputText + outputAudio,
+      input_token_details: {
+        text_tokens: inputText,
+        audio_tokens: 0,
+        cached_tokens: 0,
+      },
+      output_token_details: {
+        text_tokens: outputText,
+        audio_tokens: outputAudio,
+      },
+    };
+  }
+
+  private async streamMessage(responseId: string, id: string, text: string) {
+    const location = { response_id: responseId, output_index: 0 };
+    const audio = this.audio;
+    const part = audio
+      ? { type: "audio", transcript: "" }
+      : { type: "text", text: "" };
+    this.send({
+      type: "response.output_item.added",
+      ...location,
+      item: {
+        id,
+        object: "realtime.item",
+        type: "message",
+        role: "assistant",
+        status: "in_progress",
+        content: [],
+      },
+    });
+    this.addItem({
+      id,
+      object: "realtime.item",
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [],
+    });
+    this.send({
+      type: "response.content_part.added",
+      ...location,
+      item_id: id,
+      content_index: 0,
+      part,
+    });
+
+    let transcript = "";
+    for (const word of text.split(/(?<=\s)/)) {
+      if (this.cancelledResponses.has(responseId) || this.closed) break;
+      transcript += word;
+      this.send({
+        type: audio ? "response.audio_transcript.delta" : "response.text.delta",
+        ...location,
+        item_id: id,
+        content_index: 0,
+        delta: word,
+      });
+      if (audio) {
+        this.send({
+          type: "response.audio.delta",
+          ...location,
+          item_id: id,
+          content_index: 0,
+          delta: SILENT_WORD_AUDIO,
+        });
+      }
+      await delay(WORD_DELAY_MS);
+    }
+
+    const status = this.cancelledResponses.has(responseId)
+      ? "incomplete"
+      : "completed";
+    const content = audio
+      ? { type: "audio", transcript }
+      : { type: "text", text: transcript };
+    const item: Item = {
+      id,
+      object: "realtime.item",
+      type: "message",
+      role: "assistant",
+      status,
+      content: [content],
+    };
+    this.items.set(id, item);
+    if (audio) {
+      this.send({
+        type: "response.audio.done",
+        ...location,
+        item_id: id,
+        content_index: 0,
+      });
+      this.send({
+        type: "response.audio_transcript.done",
+        ...location,
+        item_id: id,
+        content_index: 0,
+        transcript,
+      });
+    } else {
+      this.send({
+        type: "response.text.done",
+        ...location,
+        item_id: id,
+        content_index: 0,
+        text: transcript,
+      });
+    }
+    this.send({
+      type: "response.content_part.done",
+      ...location,
+      item_id: id,
+      content_index: 0,
+      part: content,
+    });
+    this.send({ type: "response.output_item.done", ...location, item });
+    return item;
+  }
+
+  private emitFunctionCall(
+    responseId: string,
+    id: string,
+    name: string,
+    args: Record<string, unknown>
+  ) {
+    const location = { response_id: responseId, output_index: 0 };
+    const callId = `call_mock_${randomUUID()}`;
+    const argumentsJson = JSON.stringify(args);
+    const added: Item = {
+      id,
+      object: "realtime.item",
+      type: "function_call",
+      status: "in_progress",
+      name,
+      call_id: callId,
+      arguments: "",
+    };
+    this.send({ type: "response.output_item.added", ...location, item: added });
+    this.addItem(added);
+    this.send({
+      type: "response.function_call_arguments.delta",
+      ...location,
+      item_id: id,
+      call_id: callId,
+      delta: argumentsJson,
+    });
+
+    const item: Item = {
+      ...added,
+      status: "completed",
+      arguments: argumentsJson,
+    };
+    this.items.set(id, item);
+    this.send({
+      type: "response.function_call_arguments.done",
+      ...location,
+      item_id: id,
+      call_id: callId,
+      arguments: argumentsJson,
+    });
+    this.send({ type: "response.output_item.done", ...location, item });
+    return item;
+  }
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse
+) {
+  const url = new URL(request.url ?? "/", `http://localhost:${PORT}`);
+  // Browsers call the realtime endpoints cross-origin
+  response.setHeader("Access-Control-Allow-Origin", "*");
+  response.setHeader("Access-Control-Allow-Headers", "*");
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204).end();
+    return;
+  }
+
+  // Stands in for `openai.beta.realtime.sessions.create` in getSessionToken
+  if (request.method === "POST" && url.pathname === "/v1/realtime/sessions") {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    let session: Record<string, unknown>;
+    try {
+      session = body ? JSON.parse(body) : {};
+    } catch {
+      response.writeHead(400, { "Content-Type": "application/json" }).end(
+        JSON.stringify({
+          error: {
+            type: "invalid_request_error",
+            message: "The request body is not valid JSON.",
+          },
+        })
+      );
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "application/json" }).end(
+      JSON.stringify({
+        ...session,
+        id: `sess_mock_${randomUUID()}`,
+        object: "realtime.session",
+        client_secret: {
+          // The SDK only accepts ephemeral keys in the browser
+          value: `ek_mock_${randomUUID()}`,
+          expires_at: Math.floor(Date.now() / 1000) + 60,
+        },
+      })
+    );
+    return;
+  }
+
+  if (request.method === "GET" && url.pathname === "/scenarios") {
+    response
+      .writeHead(200, { "Content-Type": "application/json" })
+      .end(JSON.stringify(await listScenarios()));
+    return;
+  }
+
+  response.writeHead(404).end();
+}
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error("❌ Request failed:", error);
+    if (!response.headersSent) {
+      response.writeHead(500);
+    }
+    response.end();
+  });
+});
+
+const wss = new WebSocketServer({
+  server,
+  path: "/v1/realtime",
+  // Browsers pass the key and beta flag as subprotocols; accept "realtime"
+  handleProtocols: (protocols) =>
+    protocols.has("realtime") ? "realtime" : false,
+});
+
+wss.on("connection", async (socket, request) => {
+  const url = new URL(request.url ?? "/", `http://localhost:${PORT}`);
+  const name = url.searchParams.get("scenario") ?? DEFAULT_SCENARIO;
+  const model = url.searchParams.get("model") ?? "gpt-4o-realtime-preview";
+  // Hold client events (e.g. a relayed `session.update`) while the scenario loads
+  socket.pause();
+
+  try {
+    const scenario = await loadScenario(name);
+    console.log(
+      `🎬 Client connected, playing "${name}": ${scenario.description}`
+    );
+    new MockSession(socket, scenario).start(model);
+    socket.resume();
+  } catch (error) {
+    console.error(`❌ Could not load scenario "${name}":`, error);
+    socket.send(
+      JSON.stringify({
+        type: "error",
+        event_id: "event_mock_0",
+        error: {
+          type: "invalid_request_error",
+          message: `Unknown mock scenario "${name}"`,
+        },
+      })
+    );
+    socket.close();
+  }
+});
+
+server.listen(PORT, async () => {
+  console.log(`🧪 Mock Realtime server listening on http://localhost:${PORT}`);
+  console.log(`   Default scenario: ${DEFAULT_SCENARIO}`);
+  console.log(`   Available: ${(await listScenarios()).join(", ")}`);
+});
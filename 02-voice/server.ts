@@ -0,0 +1,222 @@
+/**
+ * Custom Next.js server with a WebSocket relay for the Realtime API
+ * Route handlers cannot accept WebSocket upgrades, so the relay is mounted
+ * here. The browser connects to `REALTIME_RELAY_PATH` without an API key;
+ * the relay opens the upstream connection with `OPENAI_API_KEY` and passes
+ * events through in both directions. Each connection is checked like a
+ * session token: a signed caller cookie, a lease from the same limits and an
+ * audit entry.
+ *
+ *   npm run dev:relay
+ */
+
+import { randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import next from "next";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { REALTIME_RELAY_PATH } from "./src/app/config/realtime-endpoint";
+import {
+  REALTIME_MODELS,
+  defaultSessionConfig,
+} from "./src/app/config/session";
+import { callerFromCookieHeader } from "./src/app/server/caller-cookie";
+import { callerLimits } from "./src/app/server/caller-limits";
+import { recordTokenAudit } from "./src/app/server/token-audit";
+import { LEASE_RENEW_MS } from "./src/app/server/token-rate-limiter";
+
+const dev = process.env.NODE_ENV !== "production";
+const port = Number(process.env.PORT ?? 3000);
+
+const app = next({ dev, turbopack: dev });
+const handle = app.getRequestHandler();
+
+// Close codes that are reported locally but may not be sent on the wire
+const RESERVED_CLOSE_CODES = new Set([1004, 1005, 1006, 1015]);
+
+function closeCode(code: number) {
+  return RESERVED_CLOSE_CODES.has(code) ? 1011 : code;
+}
+
+/** Read per connection, after Next.js has loaded the `.env` files */
+function upstreamUrl(model: string) {
+  const baseUrl =
+    process.env.OPENAI_REALTIME_BASE_URL ?? "https://api.openai.com/v1";
+  const url = new URL(`${baseUrl}/realtime`);
+  url.protocol = url.protocol === "http:" ? "ws:" : "wss:";
+  url.searchParams.set("model", model);
+  return url.toString();
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.end(
+    `HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`
+  );
+}
+
+/** Browsers send the caller cookie cross-site too; only our own pages may relay */
+function isSameOrigin(request: IncomingMessage) {
+  const { origin, host } = request.headers;
+  if (!origin || !host) {
+    return false;
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+function relay(client: WebSocket, model: string) {
+  const upstream = new WebSocket(upstreamUrl(model), {
+    headers: {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      "OpenAI-Beta": "realtime=v1",
+    },
+  });
+  // The SDK sends `session.update` as soon as the socket opens
+  const pending: { data: RawData; isBinary: boolean }[] = [];
+
+  client.on("message", (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, { binary: isBinary });
+    } else {
+      pending.push({ data, isBinary });
+    }
+  });
+
+  upstream.on("open", () => {
+    for (const { data, isBinary } of pending.splice(0)) {
+      upstream.send(data, { binary: isBinary });
+    }
+  });
+
+  upstream.on("message", (data, isBinary) => {
+    client.send(data, { binary: isBinary });
+  });
+
+  upstream.on("error", (error) => {
+    console.error("❌ Realtime relay upstream error:", error.message);
+    client.close(1011, "Upstream connection failed");
+  });
+
+  upstream.on("close", (code, reason) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(closeCode(code), reason);
+    }
+  });
+
+  client.on("close", (code, reason) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.close(closeCode(code), reason);
+    } else if (upstream.readyState === WebSocket.CONNECTING) {
+      upstream.terminate();
+    }
+  });
+}
+
+/**
+ * Opens the relay for a caller with a valid cookie and a free lease. The
+ * lease is renewed while the socket is open and released when it closes.
+ */
+async function acceptRelay(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  model: string
+) {
+  const { policy, limiter } = callerLimits();
+  const caller = callerFromCookieHeader(request.headers.cookie, policy);
+  const leaseId = randomUUID();
+  const audit = {
+    auth: policy.auth,
+    callerId: caller?.id ?? null,
+    leaseId,
+    model,
+  };
+
+  if (!caller) {
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "unauthenticated",
+    });
+    rejectUpgrade(socket, 401, "Unauthorized");
+    return;
+  }
+
+  const decision = limiter.acquire(caller.id, leaseId);
+  if (!decision.allowed) {
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "rate_limited",
+      reason: decision.message,
+    });
+    rejectUpgrade(socket, 429, "Too Many Requests");
+    return;
+  }
+
+  await recordTokenAudit(policy.auditLogPath, { ...audit, outcome: "relayed" });
+  if (socket.destroyed) {
+    limiter.release(caller.id, leaseId);
+    return;
+  }
+  relayServer.handleUpgrade(request, socket, head, (client) => {
+    console.log(`🔁 Relaying a realtime session (${model})`);
+    const renewal = setInterval(
+      () => limiter.renew(caller.id, leaseId),
+      LEASE_RENEW_MS
+    );
+    client.on("close", () => {
+      clearInterval(renewal);
+      limiter.release(caller.id, leaseId);
+    });
+    relay(client, model);
+  });
+}
+
+const relayServer = new WebSocketServer({
+  noServer: true,
+  // The SDK offers its key and beta flag as subprotocols; accept "realtime"
+  handleProtocols: (protocols) =>
+    protocols.has("realtime") ? "realtime" : false,
+});
+
+app.prepare().then(() => {
+  const handleUpgrade = app.getUpgradeHandler();
+  const server = createServer((request, response) => handle(request, response));
+
+  server.on("upgrade", (request, socket, head) => {
+    const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+    if (url.pathname !== REALTIME_RELAY_PATH) {
+      // Hot reloading in development
+      handleUpgrade(request, socket, head);
+      return;
+    }
+
+    if (!process.env.OPENAI_API_KEY) {
+      rejectUpgrade(socket, 500, "Missing OPENAI_API_KEY");
+      return;
+    }
+    if (!isSameOrigin(request)) {
+      rejectUpgrade(socket, 403, "Forbidden");
+      return;
+    }
+    const model = url.searchParams.get("model") ?? defaultSessionConfig.model;
+    if (!(REALTIME_MODELS as readonly string[]).includes(model)) {
+      rejectUpgrade(socket, 400, "Unsupported model");
+      return;
+    }
+
+    acceptRelay(request, socket, head, model).catch((error) => {
+      console.error("❌ Realtime relay refused a connection:", error);
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`🚀 Ready on http://localhost:${port}`);
+    console.log(
+      `   Realtime relay on ws://localhost:${port}${REALTIME_RELAY_PATH}`
+    );
+  });
+});
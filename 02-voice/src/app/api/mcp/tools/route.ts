@@ -0,0 +1,71 @@
+import z from "zod";
+import {
+  checkCallerRequest,
+  type CallerRefusal,
+} from "../../../server/caller-guard";
+import {
+  callBridgedTool,
+  listBridgedTools,
+  UnknownMcpToolError,
+} from "../../../server/mcp-bridge";
+import { isSameOrigin } from "../../../server/same-origin";
+
+/** The MCP servers run as child processes, which needs the Node runtime */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toolCallSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.unknown()).default({}),
+});
+
+/** 401 for unknown callers, 429 for callers over their request limit */
+function refusalResponse(error: CallerRefusal) {
+  return Response.json(
+    { error: error.message },
+    { status: error.code === "unauthenticated" ? 401 : 429 }
+  );
+}
+
+export async function GET() {
+  // Listing can start the MCP servers, so it counts like a tool call
+  const check = await checkCallerRequest();
+  if (!check.ok) {
+    return refusalResponse(check.error);
+  }
+  return Response.json(await listBridgedTools());
+}
+
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) {
+    return Response.json({ error: "Cross-origin call" }, { status: 403 });
+  }
+  const check = await checkCallerRequest();
+  if (!check.ok) {
+    return refusalResponse(check.error);
+  }
+
+  const parsed = toolCallSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid tool call" }, { status: 400 });
+  }
+
+  const { name, arguments: args } = parsed.data;
+  try {
+    // Approval is a browser-side prompt; only the allowlist is enforced here
+    const content = await callBridgedTool(name, args);
+    return Response.json({ content });
+  } catch (error) {
+    if (error instanceof UnknownMcpToolError) {
+      return Response.json({ error: error.message }, { status: 404 });
+    }
+    // The details stay in the server log; they can hold keys or paths
+    console.error(`MCP tool "${name}" failed`, error);
+    return Response.json(
+      { error: `The MCP tool "${name}" failed` },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+"use client";
+
+export type AgentEventType =
+  | "agent_handoff"
+  | "agent_start"
+  | "agent_end"
+  | "agent_tool_start"
+  | "agent_tool_end";
+
+export type AgentEvent = {
+  id: string;
+  type: AgentEventType;
+  timestamp: number;
+  agentName: string;
+  /** Handoff target, tool name or a short excerpt of the output */
+  detail?: string;
+};
+
+const EVENT_LABELS: Record<AgentEventType, string> = {
+  agent_handoff: "🔀 Handoff",
+  agent_start: "▶️ Started",
+  agent_end: "⏹️ Ended",
+  agent_tool_start: "🛠️ Tool call",
+  agent_tool_end: "✅ Tool result",
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+type ActiveAgentBadgeProps = {
+  agentName: string | null;
+  rootAgentName: string;
+  onReturnToRoot: () => void;
+};
+
+export function ActiveAgentBadge({
+  agentName,
+  rootAgentName,
+  onReturnToRoot,
+}: ActiveAgentBadgeProps) {
+  if (!agentName) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-4 text-sm">
+      <span className="text-gray-500">Current agent</span>
+      <span
+        aria-live="polite"
+        className="rounded-full bg-black text-white px-3 py-1 font-semibold"
+      >
+        {agentName}
+      </span>
+      {agentName !== rootAgentName && (
+        <button
+          onClick={onReturnToRoot}
+          className="underline cursor-pointer text-gray-700"
+        >
+          Back to {rootAgentName}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function AgentTimeline({ events }: { events: AgentEvent[] }) {
+  return (
+    <details className="mt-4 border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">
+        Agent timeline ({events.length})
+      </summary>
+      <ol className="mt-2 flex flex-col gap-1 max-h-60 overflow-y-auto font-mono text-xs">
+        {events.map((event) => (
+          <li key={event.id} className="flex gap-2">
+            <time
+              dateTime={new Date(event.timestamp).toISOString()}
+              className="text-gray-500 shrink-0"
+            >
+              {formatTime(event.timestamp)}
+            </time>
+            <span className="shrink-0">{EVENT_LABELS[event.type]}</span>
+            <span className="font-semibold shrink-0">{event.agentName}</span>
+            {event.detail && (
+              <span className="text-gray-600 truncate">{event.detail}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
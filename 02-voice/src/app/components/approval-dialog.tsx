@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import type { RunToolApprovalItem } from "@openai/agents";
+
+export type PendingApproval = {
+  callId: string;
+  toolName: string;
+  agentName: string;
+  rawArguments: string;
+  approvalItem: RunToolApprovalItem;
+};
+
+type ApprovalDialogProps = {
+  request: PendingApproval;
+  onApprove: (alwaysApprove: boolean) => void;
+  onReject: (reason: string) => void;
+};
+
+function formatArguments(rawArguments: string) {
+  try {
+    return JSON.stringify(JSON.parse(rawArguments), null, 2);
+  } catch {
+    return rawArguments;
+  }
+}
+
+export function ApprovalDialog({
+  request,
+  onApprove,
+  onReject,
+}: ApprovalDialogProps) {
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="approval-title"
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4"
+    >
+      <div className="bg-white rounded-md p-6 w-full max-w-md shadow-lg">
+        <h2 id="approval-title" className="text-lg font-bold mb-2">
+          Approve tool call?
+        </h2>
+        <p className="mb-1">
+          <span className="font-semibold">{request.agentName}</span> wants to
+          run <code className="bg-gray-100 px-1">{request.toolName}</code>
+        </p>
+        <pre className="bg-gray-100 p-2 rounded-md text-sm overflow-auto max-h-48 mb-4">
+          {formatArguments(request.rawArguments)}
+        </pre>
+        {rejecting ? (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              onReject(reason.trim());
+            }}
+          >
+            <label className="block text-sm mb-1" htmlFor="reject-reason">
+              Reason (optional)
+            </label>
+            <input
+              id="reject-reason"
+              autoFocus
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              className="border rounded-md p-2 w-full mb-4"
+            />
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setRejecting(false)}
+                className="p-2 rounded-md hover:bg-gray-100 cursor-pointer"
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                className="bg-red-600 text-white p-2 rounded-md hover:bg-red-700 cursor-pointer"
+              >
+                Reject
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setRejecting(true)}
+              className="p-2 rounded-md hover:bg-gray-100 cursor-pointer"
+            >
+              Reject…
+            </button>
+            <button
+              onClick={() => onApprove(true)}
+              className="p-2 rounded-md border hover:bg-gray-100 cursor-pointer"
+            >
+              Always allow this session
+            </button>
+            <button
+              autoFocus
+              onClick={() => onApprove(false)}
+              className="bg-black text-white p-2 rounded-md hover:bg-gray-800 cursor-pointer"
+            >
+              Approve
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
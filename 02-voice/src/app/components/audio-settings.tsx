@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import {
+  NOISE_REDUCTION_TYPES,
+  TRANSCRIPTION_MODELS,
+  type TurnDetection,
+} from "../config/session";
+import type { AudioSettings } from "../utils/audio-settings";
+import { InputLevelMeter } from "./input-level-meter";
+
+type AudioSettingsPanelProps = {
+  settings: AudioSettings;
+  connected: boolean;
+  onChange: (settings: AudioSettings) => void;
+  onReset: () => void;
+};
+
+const EAGERNESS = ["auto", "low", "medium", "high"] as const;
+
+const NOISE_REDUCTION_LABELS: Record<
+  (typeof NOISE_REDUCTION_TYPES)[number],
+  string
+> = {
+  near_field: "Near field (headset)",
+  far_field: "Far field (laptop / room mic)",
+};
+
+function Field({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-4">
+      <span>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function NumberInput({
+  value,
+  placeholder,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  value?: number;
+  placeholder: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <input
+      type="number"
+      value={value ?? ""}
+      placeholder={placeholder}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(event) =>
+        onChange(
+          event.target.value === "" ? undefined : Number(event.target.value)
+        )
+      }
+      className="w-28 border rounded-md p-1"
+    />
+  );
+}
+
+export function AudioSettingsPanel({
+  settings,
+  connected,
+  onChange,
+  onReset,
+}: AudioSettingsPanelProps) {
+  const [testingMic, setTestingMic] = useState(false);
+  const { turnDetection } = settings;
+
+  function updateTurnDetection(changes: Partial<TurnDetection>) {
+    onChange({ ...settings, turnDetection: { ...turnDetection, ...changes } });
+  }
+
+  return (
+    <details className="mt-4 border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">Audio settings</summary>
+      <div className="flex flex-col gap-2 mt-2 max-w-md">
+        <Field label="Turn detection">
+          <select
+            value={turnDetection.type}
+            onChange={(event) =>
+              updateTurnDetection({
+                type: event.target.value as TurnDetection["type"],
+              })
+            }
+            className="border rounded-md p-1"
+          >
+            <option value="semantic_vad">Semantic VAD</option>
+            <option value="server_vad">Server VAD</option>
+          </select>
+        </Field>
+
+        {turnDetection.type === "semantic_vad" ? (
+          <Field label="Eagerness">
+            <select
+              value={turnDetection.eagerness ?? "auto"}
+              onChange={(event) =>
+                updateTurnDetection({
+                  eagerness: event.target.value as TurnDetection["eagerness"],
+                })
+              }
+              className="border rounded-md p-1"
+            >
+              {EAGERNESS.map((eagerness) => (
+                <option key={eagerness} value={eagerness}>
+                  {eagerness}
+                </option>
+              ))}
+            </select>
+          </Field>
+        ) : (
+          <>
+            <Field label="Threshold (0–1)">
+              <NumberInput
+                value={turnDetection.threshold}
+                placeholder="0.5"
+                min={0}
+                max={1}
+                step={0.05}
+                onChange={(threshold) => updateTurnDetection({ threshold })}
+              />
+            </Field>
+            <Field label="Prefix padding (ms)">
+              <NumberInput
+                value={turnDetection.prefixPaddingMs}
+                placeholder="300"
+                min={0}
+                max={2000}
+                step={50}
+                onChange={(prefixPaddingMs) =>
+                  updateTurnDetection({ prefixPaddingMs })
+                }
+              />
+            </Field>
+            <Field label="Silence duration (ms)">
+              <NumberInput
+                value={turnDetection.silenceDurationMs}
+                placeholder="500"
+                min={0}
+                max={5000}
+                step={50}
+                onChange={(silenceDurationMs) =>
+                  updateTurnDetection({ silenceDurationMs })
+                }
+              />
+            </Field>
+          </>
+        )}
+
+        <Field label="Noise reduction">
+          <select
+            value={settings.inputAudioNoiseReduction ?? ""}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                inputAudioNoiseReduction:
+                  (event.target
+                    .value as AudioSettings["inputAudioNoiseReduction"]) ||
+                  undefined,
+              })
+            }
+            className="border rounded-md p-1"
+          >
+            <option value="">Off</option>
+            {NOISE_REDUCTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {NOISE_REDUCTION_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label="Transcription model">
+          <select
+            value={settings.inputAudioTranscription.model}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                inputAudioTranscription: {
+                  ...settings.inputAudioTranscription,
+                  model: event.target
+                    .value as AudioSettings["inputAudioTranscription"]["model"],
+                },
+              })
+            }
+            className="border rounded-md p-1"
+          >
+            {TRANSCRIPTION_MODELS.map((model) => (
+              <option key={model} value={model}>
+                {model}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <div className="flex items-center gap-2">
+          <button
+            disabled={connected}
+            aria-pressed={testingMic}
+            onClick={() => setTestingMic(!testingMic)}
+            className="p-1 rounded-md border hover:bg-gray-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {testingMic ? "Stop mic test" : "Test mic"}
+          </button>
+          <InputLevelMeter active={testingMic && !connected} />
+        </div>
+
+        <div className="flex items-center justify-between text-gray-500">
+          <span>
+            {connected
+              ? "Changes apply to the live session."
+              : "Saved in this browser."}
+          </span>
+          <button onClick={onReset} className="underline cursor-pointer">
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import {
+  REALTIME_TRANSPORTS,
+  type RealtimeTransportKind,
+} from "../config/realtime-endpoint";
+
+export type ConnectionState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "failed"
+  /** The transport closed while the session was live */
+  | "dropped"
+  | "reconnecting";
+
+type ConnectionStatusProps = {
+  transport: RealtimeTransportKind;
+  state: ConnectionState;
+  /** Attempts made for the current connection, including retries */
+  attempts: number;
+  error: string | null;
+  onTransportChange: (transport: RealtimeTransportKind) => void;
+};
+
+const TRANSPORT_LABELS: Record<RealtimeTransportKind, string> = {
+  webrtc: "WebRTC",
+  websocket: "WebSocket",
+  relay: "WebSocket via server relay",
+};
+
+const STATE_STYLES: Record<ConnectionState, { label: string; dot: string }> = {
+  disconnected: { label: "Disconnected", dot: "bg-gray-400" },
+  connecting: { label: "Connecting…", dot: "bg-yellow-400 animate-pulse" },
+  connected: { label: "Connected", dot: "bg-green-500" },
+  failed: { label: "Connection failed", dot: "bg-red-500" },
+  dropped: { label: "Connection lost", dot: "bg-red-500" },
+  reconnecting: {
+    label: "Connection lost, reconnecting…",
+    dot: "bg-yellow-400 animate-pulse",
+  },
+};
+
+export function ConnectionStatus({
+  transport,
+  state,
+  attempts,
+  error,
+  onTransportChange,
+}: ConnectionStatusProps) {
+  const { label, dot } = STATE_STYLES[state];
+  const locked = state !== "disconnected" && state !== "failed";
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+      <label className="flex items-center gap-2">
+        <span>Transport</span>
+        <select
+          value={transport}
+          disabled={locked}
+          onChange={(event) =>
+            onTransportChange(event.target.value as RealtimeTransportKind)
+          }
+          className="border rounded-md p-1 disabled:opacity-50"
+        >
+          {REALTIME_TRANSPORTS.map((kind) => (
+            <option key={kind} value={kind}>
+              {TRANSPORT_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <span className="flex items-center gap-2" role="status">
+        <span className={`inline-block w-2 h-2 rounded-full ${dot}`} />
+        {label}
+        {(state === "connecting" || state === "connected") &&
+          ` over ${TRANSPORT_LABELS[transport]}`}
+        {attempts > 1 && (
+          <span className="text-gray-500">(attempt {attempts})</span>
+        )}
+      </span>
+      {error && (state === "failed" || state === "reconnecting") && (
+        <span className="text-red-600">{error}</span>
+      )}
+    </div>
+  );
+}
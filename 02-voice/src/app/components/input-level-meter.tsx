@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Opens the microphone and shows its RMS level so users can check their mic
+ * before connecting. Only runs while `active` is true, since the realtime
+ * session takes over the mic once connected.
+ */
+export function InputLevelMeter({ active }: { active: boolean }) {
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const frame = useRef<number>(0);
+
+  useEffect(() => {
+    if (!active) {
+      setLevel(0);
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+
+    async function start() {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (error) {
+        setError(
+          error instanceof Error ? error.message : "Microphone unavailable"
+        );
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      setError(null);
+      audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (const sample of samples) {
+          sum += sample * sample;
+        }
+        // Speech RMS rarely exceeds ~0.3, so scale it up to fill the bar
+        setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 3));
+        frame.current = requestAnimationFrame(tick);
+      };
+      tick();
+    }
+
+    start();
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame.current);
+      stream?.getTracks().forEach((track) => track.stop());
+      audioContext?.close();
+    };
+  }, [active]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">🎙️ {error}</p>;
+  }
+
+  return (
+    <div
+      role="meter"
+      aria-label="Microphone input level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+      className="h-2 w-48 rounded-full bg-gray-200 overflow-hidden"
+    >
+      <div
+        className="h-full bg-green-500 transition-[width] duration-75"
+        style={{ width: `${level * 100}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { LOCALES, messageCatalogs, type Locale } from "../config/locales";
+
+type LocalePickerProps = {
+  locale: Locale;
+  /** The voice is fixed once the agent has spoken, so switch between sessions */
+  locked: boolean;
+  onChange: (locale: Locale) => void;
+};
+
+export function LocalePicker({ locale, locked, onChange }: LocalePickerProps) {
+  return (
+    <label className="flex items-center gap-2 mt-4 text-sm">
+      <span>Language</span>
+      <select
+        value={locale}
+        disabled={locked}
+        onChange={(event) => onChange(event.target.value as Locale)}
+        className="border rounded-md p-1 disabled:opacity-50"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {messageCatalogs[option].languageName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
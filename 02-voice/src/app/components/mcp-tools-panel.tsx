@@ -0,0 +1,64 @@
+"use client";
+
+import type { McpTools } from "../tools/mcp";
+
+type McpToolsPanelProps = {
+  /** `null` until the server has listed them */
+  tools: McpTools | null;
+  error: string | null;
+};
+
+export function McpToolsPanel({ tools, error }: McpToolsPanelProps) {
+  const summary = error
+    ? "unavailable"
+    : tools
+    ? `${tools.tools.length} tools`
+    : "loading…";
+  return (
+    <details className="mt-4 border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">
+        MCP tools ({summary})
+      </summary>
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+      {tools?.servers.length === 0 && (
+        <p className="mt-2 text-gray-500">
+          No MCP servers are configured in config/mcp-servers.json.
+        </p>
+      )}
+      <ul className="mt-2 flex flex-col gap-2">
+        {tools?.servers.map((server) => (
+          <li key={server.name}>
+            <div className="flex items-center gap-2">
+              <span
+                className={server.connected ? "text-green-600" : "text-red-600"}
+              >
+                ●
+              </span>
+              <span className="font-semibold">{server.name}</span>
+              {server.error && (
+                <span className="text-gray-500 truncate">{server.error}</span>
+              )}
+            </div>
+            {server.missingTools && (
+              <p className="ml-5 text-amber-700">
+                Not offered by the server: {server.missingTools.join(", ")}
+              </p>
+            )}
+            <ul className="ml-5 font-mono text-xs">
+              {tools.tools
+                .filter((tool) => tool.server === server.name)
+                .map((tool) => (
+                  <li key={tool.name} className="flex gap-2">
+                    <span>{tool.name}</span>
+                    <span className="text-gray-500">
+                      {tool.needsApproval ? "asks first" : "runs directly"}
+                    </span>
+                  </li>
+                ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import type { SessionConfig } from "../config/session";
+import {
+  estimateCost,
+  percentile,
+  totalUsage,
+  type TurnMetrics,
+  type TurnTrigger,
+} from "../utils/turn-metrics";
+
+type MetricsPanelProps = {
+  turns: TurnMetrics[];
+  model: SessionConfig["model"];
+};
+
+const RECENT_TURNS = 10;
+
+const TRIGGER_LABELS: Record<TurnTrigger, string> = {
+  speech: "🎙️",
+  push_to_talk: "🎙️",
+  text: "⌨️",
+  response: "🤖",
+};
+
+const LATENCIES: {
+  label: string;
+  value: (turn: TurnMetrics) => number | null;
+}[] = [
+  { label: "First audio", value: (turn) => turn.firstAudioMs },
+  { label: "First transcript", value: (turn) => turn.firstTranscriptMs },
+  { label: "Response done", value: (turn) => turn.responseDoneMs },
+  {
+    label: "Tool execution",
+    value: (turn) =>
+      turn.tools.length > 0
+        ? turn.tools.reduce((total, tool) => total + tool.durationMs, 0)
+        : null,
+  },
+];
+
+function formatMs(value: number | null | undefined) {
+  return value === null || value === undefined ? "—" : `${value} ms`;
+}
+
+function formatTokens(value: number) {
+  return value.toLocaleString();
+}
+
+function formatCost(value: number | null) {
+  return value === null ? "n/a" : `$${value.toFixed(4)}`;
+}
+
+export function MetricsPanel({ turns, model }: MetricsPanelProps) {
+  const usage = totalUsage(turns);
+  const cost = estimateCost(usage, model);
+
+  return (
+    <details className="mt-4 border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">
+        Metrics ({turns.length} turns, est. {formatCost(cost)})
+      </summary>
+      {turns.length === 0 ? (
+        <p className="mt-2 text-gray-500">
+          Metrics appear here after the first turn.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-4 mt-2">
+          <table className="w-full max-w-xl text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="font-normal">Since end of user turn</th>
+                <th className="font-normal">p50</th>
+                <th className="font-normal">p95</th>
+                <th className="font-normal">Last</th>
+              </tr>
+            </thead>
+            <tbody>
+              {LATENCIES.map(({ label, value }) => {
+                const values = turns
+                  .map(value)
+                  .filter((ms): ms is number => ms !== null);
+                return (
+                  <tr key={label}>
+                    <td>{label}</td>
+                    <td>{formatMs(percentile(values, 50))}</td>
+                    <td>{formatMs(percentile(values, 95))}</td>
+                    <td>{formatMs(value(turns[turns.length - 1]))}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <table className="w-full max-w-xl text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="font-normal">Tokens</th>
+                <th className="font-normal">Text</th>
+                <th className="font-normal">Audio</th>
+                <th className="font-normal">Cached</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Input</td>
+                <td>{formatTokens(usage.inputTextTokens)}</td>
+                <td>{formatTokens(usage.inputAudioTokens)}</td>
+                <td>
+                  {formatTokens(
+                    usage.cachedTextTokens + usage.cachedAudioTokens
+                  )}
+                </td>
+              </tr>
+              <tr>
+                <td>Output</td>
+                <td>{formatTokens(usage.outputTextTokens)}</td>
+                <td>{formatTokens(usage.outputAudioTokens)}</td>
+                <td>—</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-gray-500">
+            Estimated cost for {model}: {formatCost(cost)} (excludes input
+            transcription)
+          </p>
+
+          <div>
+            <p className="font-semibold">Recent turns</p>
+            <ol className="flex flex-col gap-1 mt-1 font-mono text-xs">
+              {turns
+                .slice(-RECENT_TURNS)
+                .reverse()
+                .map((turn) => (
+                  <li key={turn.id}>
+                    {TRIGGER_LABELS[turn.trigger]} audio{" "}
+                    {formatMs(turn.firstAudioMs)} · transcript{" "}
+                    {formatMs(turn.firstTranscriptMs)} · done{" "}
+                    {formatMs(turn.responseDoneMs)}
+                    {turn.tools.map((tool, index) => (
+                      <span key={index}>
+                        {" "}
+                        · {tool.name} {formatMs(tool.durationMs)}
+                      </span>
+                    ))}
+                    {" · "}
+                    {formatCost(estimateCost(turn.usage, model))}
+                    {turn.interrupted && " · interrupted"}
+                  </li>
+                ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
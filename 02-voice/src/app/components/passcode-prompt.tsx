@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { signInWithPasscode } from "../server/caller-auth";
+
+type PasscodePromptProps = {
+  onSignedIn: () => void;
+};
+
+export function PasscodePrompt({ onSignedIn }: PasscodePromptProps) {
+  const [passcode, setPasscode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  async function onSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setChecking(true);
+    try {
+      const result = await signInWithPasscode(passcode);
+      if (result.ok) {
+        setPasscode("");
+        onSignedIn();
+      } else {
+        setError(result.message);
+      }
+    } catch (error) {
+      console.error("Failed to sign in", error);
+      setError("Could not check the passcode. Please try again.");
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={onSubmit}
+      className="flex flex-wrap items-center gap-2 mt-4 text-sm"
+    >
+      <label className="flex items-center gap-2">
+        <span>Demo passcode</span>
+        <input
+          type="password"
+          value={passcode}
+          autoComplete="current-password"
+          onChange={(event) => setPasscode(event.target.value)}
+          className="border rounded-md p-1"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={checking || passcode.length === 0}
+        className="p-1 px-2 rounded-md border hover:bg-gray-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Sign in
+      </button>
+      {error && <span className="text-red-600">{error}</span>}
+    </form>
+  );
+}
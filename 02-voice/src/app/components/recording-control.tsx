@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatOffset } from "../utils/session-export";
+
+type RecordingControlProps = {
+  enabled: boolean;
+  /** When the active recording started, `null` while not recording */
+  recordingSince: number | null;
+  /** Recording can only be switched on or off before connecting */
+  locked: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+};
+
+export function RecordingControl({
+  enabled,
+  recordingSince,
+  locked,
+  onEnabledChange,
+}: RecordingControlProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recordingSince]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={locked}
+          onChange={(event) => onEnabledChange(event.target.checked)}
+        />
+        Record audio
+      </label>
+      {recordingSince !== null && (
+        <span
+          className="flex items-center gap-2 font-mono text-red-600"
+          role="status"
+        >
+          <span className="inline-block w-2 h-2 rounded-full bg-red-600 animate-pulse" />
+          REC {formatOffset(now - recordingSince)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+export function RosterIssues({ issues }: { issues: string[] }) {
+  return (
+    <main className="p-8">
+      <h1 className="text-2xl font-bold mb-4">Voice Agent Demo</h1>
+      <div
+        role="alert"
+        className="border border-red-300 bg-red-50 p-4 rounded-md"
+      >
+        <p className="font-semibold text-red-700">
+          The agent configuration in <code>src/app/config</code> is invalid:
+        </p>
+        <ul className="list-disc ml-6 mt-2 text-sm">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect } from "react";
+
+type SessionControlsProps = {
+  connected: boolean;
+  pushToTalk: boolean;
+  talking: boolean;
+  muted: boolean;
+  agentSpeaking: boolean;
+  onPushToTalkChange: (enabled: boolean) => void;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  onMuteChange: (muted: boolean) => void;
+  onInterrupt: () => void;
+};
+
+const PUSH_TO_TALK_KEY = "Space";
+
+function isTextInput(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+function statusLabel({
+  connected,
+  pushToTalk,
+  talking,
+  muted,
+  agentSpeaking,
+}: Pick<
+  SessionControlsProps,
+  "connected" | "pushToTalk" | "talking" | "muted" | "agentSpeaking"
+>) {
+  if (!connected) return "Not connected";
+  if (agentSpeaking) return "🔊 Agent is speaking";
+  if (pushToTalk) return talking ? "🎙️ Sending audio" : "Push-to-talk mode";
+  return muted ? "🔇 Mic muted" : "🎙️ Listening";
+}
+
+export function SessionControls({
+  connected,
+  pushToTalk,
+  talking,
+  muted,
+  agentSpeaking,
+  onPushToTalkChange,
+  onTalkStart,
+  onTalkEnd,
+  onMuteChange,
+  onInterrupt,
+}: SessionControlsProps) {
+  useEffect(() => {
+    if (!connected || !pushToTalk) {
+      return;
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.code !== PUSH_TO_TALK_KEY || event.repeat) return;
+      if (isTextInput(event.target)) return;
+      event.preventDefault();
+      onTalkStart();
+    }
+
+    function onKeyUp(event: KeyboardEvent) {
+      if (event.code !== PUSH_TO_TALK_KEY) return;
+      if (isTextInput(event.target)) return;
+      event.preventDefault();
+      onTalkEnd();
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, [connected, pushToTalk, onTalkStart, onTalkEnd]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4">
+      <div
+        role="radiogroup"
+        aria-label="Input mode"
+        className="flex border rounded-md"
+      >
+        <button
+          role="radio"
+          aria-checked={!pushToTalk}
+          onClick={() => onPushToTalkChange(false)}
+          className={`p-2 rounded-l-md cursor-pointer ${
+            pushToTalk ? "hover:bg-gray-100" : "bg-black text-white"
+          }`}
+        >
+          Voice activity
+        </button>
+        <button
+          role="radio"
+          aria-checked={pushToTalk}
+          onClick={() => onPushToTalkChange(true)}
+          className={`p-2 rounded-r-md cursor-pointer ${
+            pushToTalk ? "bg-black text-white" : "hover:bg-gray-100"
+          }`}
+        >
+          Push to talk
+        </button>
+      </div>
+
+      {pushToTalk ? (
+        <button
+          disabled={!connected}
+          onPointerDown={onTalkStart}
+          onPointerUp={onTalkEnd}
+          onPointerLeave={() => talking && onTalkEnd()}
+          className={`p-2 rounded-md border cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed select-none ${
+            talking ? "bg-red-600 text-white" : "hover:bg-gray-100"
+          }`}
+        >
+          {talking ? "Listening…" : "Hold to talk (Space)"}
+        </button>
+      ) : (
+        <button
+          disabled={!connected}
+          aria-pressed={muted}
+          onClick={() => onMuteChange(!muted)}
+          className="p-2 rounded-md border hover:bg-gray-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {muted ? "Unmute mic" : "Mute mic"}
+        </button>
+      )}
+
+      <button
+        disabled={!connected}
+        onClick={onInterrupt}
+        className="p-2 rounded-md border hover:bg-gray-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Interrupt
+      </button>
+
+      <span className="text-sm text-gray-500" aria-live="polite">
+        {statusLabel({ connected, pushToTalk, talking, muted, agentSpeaking })}
+      </span>
+    </div>
+  );
+}
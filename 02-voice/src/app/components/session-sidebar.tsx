@@ -0,0 +1,117 @@
+"use client";
+
+import { getRecording, type SessionRecord } from "../utils/session-store";
+import {
+  downloadFile,
+  formatOffset,
+  sessionTitle,
+  sessionToJson,
+  sessionToMarkdown,
+} from "../utils/session-export";
+import { encodeWav, mixTracks } from "../utils/wav";
+
+type SessionSidebarProps = {
+  sessions: SessionRecord[];
+  onDelete: (id: string) => void;
+};
+
+function exportName(record: SessionRecord, extension: string) {
+  const stamp = new Date(record.startedAt).toISOString().replace(/[:.]/g, "-");
+  return `voice-session-${stamp}.${extension}`;
+}
+
+/**
+ * Mixed is one mono track; tracks is stereo with the microphone on the left
+ * and the agent on the right. Both start at the recording's `startedAt`.
+ */
+async function downloadRecording(
+  record: SessionRecord,
+  layout: "mixed" | "tracks"
+) {
+  const recording = await getRecording(record.id);
+  if (!recording) {
+    console.error(`No recording stored for session ${record.id}`);
+    return;
+  }
+  const { mic, agent } = recording.tracks;
+  const channels =
+    layout === "mixed" ? [mixTracks([mic, agent])] : [mic, agent];
+  downloadFile(
+    exportName(record, layout === "mixed" ? "wav" : "tracks.wav"),
+    encodeWav(channels, recording.sampleRate),
+    "audio/wav"
+  );
+}
+
+export function SessionSidebar({ sessions, onDelete }: SessionSidebarProps) {
+  return (
+    <aside className="w-72 shrink-0 border-r p-4 overflow-y-auto">
+      <h2 className="font-bold mb-2">Past sessions</h2>
+      {sessions.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Sessions are saved here when you disconnect.
+        </p>
+      )}
+      <ul className="flex flex-col gap-3">
+        {sessions.map((record) => (
+          <li key={record.id} className="border rounded-md p-2 text-sm">
+            <p className="font-semibold">{sessionTitle(record)}</p>
+            <p className="text-gray-500">
+              {record.history.length} items ·{" "}
+              {record.agents.map((agent) => agent.name).join(", ")}
+            </p>
+            {record.recording && (
+              <p className="flex gap-2 text-gray-500">
+                <span>🎙️ {formatOffset(record.recording.durationMs)}</span>
+                <button
+                  onClick={() => downloadRecording(record, "mixed")}
+                  className="underline cursor-pointer"
+                >
+                  WAV (mixed)
+                </button>
+                <button
+                  onClick={() => downloadRecording(record, "tracks")}
+                  className="underline cursor-pointer"
+                >
+                  WAV (tracks)
+                </button>
+              </p>
+            )}
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() =>
+                  downloadFile(
+                    exportName(record, "md"),
+                    sessionToMarkdown(record),
+                    "text/markdown"
+                  )
+                }
+                className="underline cursor-pointer"
+              >
+                Markdown
+              </button>
+              <button
+                onClick={() =>
+                  downloadFile(
+                    exportName(record, "json"),
+                    sessionToJson(record),
+                    "application/json"
+                  )
+                }
+                className="underline cursor-pointer"
+              >
+                JSON
+              </button>
+              <button
+                onClick={() => onDelete(record.id)}
+                className="ml-auto text-red-600 underline cursor-pointer"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
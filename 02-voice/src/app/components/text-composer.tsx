@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { REPLY_MODALITIES, type ReplyModality } from "../config/session";
+
+type TextComposerProps = {
+  connected: boolean;
+  reply: ReplyModality;
+  onReplyChange: (reply: ReplyModality) => void;
+  onSend: (text: string) => void;
+};
+
+const REPLY_LABELS: Record<ReplyModality, string> = {
+  audio: "Audio",
+  text: "Text",
+  both: "Both",
+};
+
+export function TextComposer({
+  connected,
+  reply,
+  onReplyChange,
+  onSend,
+}: TextComposerProps) {
+  const [text, setText] = useState("");
+  const canSend = connected && text.trim().length > 0;
+
+  function send() {
+    if (!canSend) return;
+    onSend(text.trim());
+    setText("");
+  }
+
+  return (
+    <form
+      className="flex flex-col gap-2 mt-4 max-w-xl"
+      onSubmit={(event) => {
+        event.preventDefault();
+        send();
+      }}
+    >
+      <textarea
+        value={text}
+        disabled={!connected}
+        rows={2}
+        placeholder={
+          connected
+            ? "Type or paste a message (Enter to send, Shift+Enter for a new line)"
+            : "Connect to send messages"
+        }
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && !event.shiftKey) {
+            event.preventDefault();
+            send();
+          }
+        }}
+        className="border rounded-md p-2 font-mono text-sm disabled:opacity-50"
+      />
+      <div className="flex items-center gap-2 text-sm">
+        <span>Agent replies in</span>
+        <div
+          role="radiogroup"
+          aria-label="Reply modality"
+          className="flex border rounded-md"
+        >
+          {REPLY_MODALITIES.map((modality) => (
+            <button
+              key={modality}
+              type="button"
+              role="radio"
+              aria-checked={reply === modality}
+              onClick={() => onReplyChange(modality)}
+              className={`px-2 py-1 first:rounded-l-md last:rounded-r-md cursor-pointer ${
+                reply === modality ? "bg-black text-white" : "hover:bg-gray-100"
+              }`}
+            >
+              {REPLY_LABELS[modality]}
+            </button>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!canSend}
+          className="ml-auto bg-black text-white px-3 py-1 rounded-md hover:bg-gray-800 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </div>
+    </form>
+  );
+}
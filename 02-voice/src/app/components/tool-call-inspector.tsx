@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import {
+  filterToolCalls,
+  parseJson,
+  scenarioStepFixture,
+  testFixture,
+  type ToolCallRecord,
+  type ToolCallStatus,
+} from "../utils/tool-calls";
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  awaiting_approval: "⏳ awaiting approval",
+  running: "⚙️ running",
+  done: "✅ done",
+  rejected: "🚫 rejected",
+};
+
+const APPROVAL_LABELS = {
+  approved: "approved",
+  always_approved: "always allowed",
+  rejected: "rejected",
+} as const;
+
+function formatJson(text: string) {
+  const parsed = parseJson(text);
+  return parsed.ok ? JSON.stringify(parsed.value, null, 2) : text;
+}
+
+function Field({ label, children }: { label: string; children: string }) {
+  return (
+    <div>
+      <p className="text-gray-500">{label}</p>
+      <pre className="whitespace-pre-wrap break-all bg-gray-50 rounded p-1 max-h-48 overflow-y-auto">
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+function CopyButton({ label, value }: { label: string; value: unknown }) {
+  const [copied, setCopied] = useState(false);
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(value, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy the tool call", error);
+    }
+  }
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className="border rounded-md px-2 py-0.5 cursor-pointer"
+    >
+      {copied ? "Copied" : label}
+    </button>
+  );
+}
+
+function ToolCallEntry({ call }: { call: ToolCallRecord }) {
+  const parsedArguments = parseJson(call.rawArguments);
+  const approval = call.approval
+    ? APPROVAL_LABELS[call.approval]
+    : call.status === "awaiting_approval"
+    ? "pending"
+    : "not asked";
+  return (
+    <details className="border-t pt-1">
+      <summary className="cursor-pointer flex gap-2">
+        <span className="font-semibold">{call.name}</span>
+        <span className="text-gray-600">{call.agentName}</span>
+        <span>{STATUS_LABELS[call.status]}</span>
+        {call.durationMs !== undefined && (
+          <span className="text-gray-500">{call.durationMs} ms</span>
+        )}
+      </summary>
+      <div className="flex flex-col gap-2 mt-1 font-mono text-xs">
+        <p>
+          Call ID {call.callId} · approval: {approval}
+          {call.rejectReason && ` (${call.rejectReason})`}
+        </p>
+        <Field label="Raw arguments">{call.rawArguments}</Field>
+        <Field label="Parsed arguments">
+          {parsedArguments.ok
+            ? JSON.stringify(parsedArguments.value, null, 2)
+            : `Not valid JSON: ${parsedArguments.error}`}
+        </Field>
+        {call.result !== undefined && (
+          <Field label="Result">{formatJson(call.result)}</Field>
+        )}
+        <div className="flex gap-2 font-sans">
+          <CopyButton
+            label="Copy as mock scenario step"
+            value={scenarioStepFixture(call)}
+          />
+          <CopyButton label="Copy as test fixture" value={testFixture(call)} />
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export function ToolCallInspector({ calls }: { calls: ToolCallRecord[] }) {
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState<ToolCallStatus | "all">("all");
+  const shown = filterToolCalls(calls, query, status);
+
+  return (
+    <details className="mt-4 border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">
+        Tool calls ({calls.length})
+      </summary>
+      <div className="flex gap-2 mt-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Filter by tool, agent, arguments or result"
+          className="border rounded-md p-1 flex-1"
+        />
+        <select
+          value={status}
+          onChange={(event) =>
+            setStatus(event.target.value as ToolCallStatus | "all")
+          }
+          className="border rounded-md p-1"
+        >
+          <option value="all">All</option>
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {shown.length === 0 ? (
+        <p className="mt-2 text-gray-500">
+          {calls.length === 0
+            ? "Tool calls appear here when an agent uses a tool."
+            : "No tool calls match the filter."}
+        </p>
+      ) : (
+        <ol className="mt-2 flex flex-col gap-1 max-h-96 overflow-y-auto">
+          {shown.map((call) => (
+            <li key={call.callId}>
+              <ToolCallEntry call={call} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
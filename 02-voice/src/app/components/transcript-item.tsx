@@ -0,0 +1,214 @@
+import type {
+  RealtimeMessageItem,
+  RealtimeToolCallItem,
+} from "@openai/agents/realtime";
+import type { Locale } from "../config/locales";
+import { segmentByMatches } from "../utils/guardrails";
+import {
+  handoffTarget,
+  messageText,
+  type GuardrailNote,
+  type TranscriptNote,
+} from "../utils/transcript";
+
+function formatJson(value: string | null) {
+  if (!value) {
+    return "";
+  }
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+function Label({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="text-xs font-semibold uppercase text-gray-500 mr-2">
+      {children}
+    </span>
+  );
+}
+
+export function MessageEntry({
+  item,
+  agentName,
+  language,
+  collapseSpoken = false,
+}: {
+  item: RealtimeMessageItem;
+  agentName?: string;
+  /** Detected language of a user turn */
+  language?: Locale;
+  /** Fold the transcript of a spoken assistant reply behind a toggle */
+  collapseSpoken?: boolean;
+}) {
+  const text = messageText(item);
+  const inProgress = "status" in item && item.status === "in_progress";
+
+  if (item.role === "system") {
+    return <p className="text-sm italic text-gray-500">{text}</p>;
+  }
+
+  const isUser = item.role === "user";
+  const hasAudio = item.content.some(
+    (part) => part.type === "input_audio" || part.type === "audio"
+  );
+  let placeholder = "";
+  if (!text) {
+    if (inProgress) {
+      placeholder = isUser ? "Transcribing…" : "…";
+    } else if (isUser && hasAudio) {
+      placeholder = "[no transcript]";
+    }
+  }
+
+  return (
+    <div className={isUser ? "text-right" : ""}>
+      <Label>{isUser ? "You" : agentName ?? "Assistant"}</Label>
+      {language && (
+        <span
+          title="Detected language"
+          className="mr-1 rounded border px-1 text-xs uppercase text-gray-500"
+        >
+          {language}
+        </span>
+      )}
+      {hasAudio ? (
+        <span aria-label="spoken" className="mr-1">
+          🎤
+        </span>
+      ) : (
+        isUser && (
+          <span aria-label="typed" className="mr-1">
+            ⌨️
+          </span>
+        )
+      )}
+      {collapseSpoken && hasAudio && !isUser ? (
+        <details className="inline-block rounded-md px-3 py-2 bg-gray-100">
+          <summary className="cursor-pointer text-gray-500">
+            🔊 Spoken reply
+          </summary>
+          {text || placeholder}
+        </details>
+      ) : (
+        <span
+          className={`inline-block rounded-md px-3 py-2 whitespace-pre-wrap ${
+            isUser ? "bg-black text-white" : "bg-gray-100"
+          } ${inProgress ? "opacity-70" : ""}`}
+        >
+          {text || placeholder}
+        </span>
+      )}
+      {item.role === "assistant" && item.status === "incomplete" && (
+        <span className="ml-2 text-xs text-gray-500">(interrupted)</span>
+      )}
+    </div>
+  );
+}
+
+export function FunctionCallEntry({
+  item,
+  agentName,
+}: {
+  item: RealtimeToolCallItem;
+  agentName?: string;
+}) {
+  return (
+    <details className="border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer">
+        <Label>{agentName ?? "Assistant"}</Label>
+        🛠️ <code>{item.name}</code>
+        <span className="ml-2 text-gray-500">
+          {item.status === "completed" ? "completed" : "running…"}
+        </span>
+      </summary>
+      <p className="mt-2 font-semibold">Arguments</p>
+      <pre className="bg-gray-100 p-2 rounded-md overflow-auto">
+        {formatJson(item.arguments)}
+      </pre>
+      {item.output !== null && (
+        <>
+          <p className="mt-2 font-semibold">Output</p>
+          <pre className="bg-gray-100 p-2 rounded-md overflow-auto">
+            {formatJson(item.output)}
+          </pre>
+        </>
+      )}
+    </details>
+  );
+}
+
+export function HandoffEntry({
+  item,
+  agentName,
+}: {
+  item: RealtimeToolCallItem;
+  agentName?: string;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-500">
+      <hr className="flex-1" />
+      {agentName ?? "Assistant"} → {handoffTarget(item)}
+      <hr className="flex-1" />
+    </div>
+  );
+}
+
+function GuardrailNoteEntry({ note }: { note: GuardrailNote }) {
+  return (
+    <div
+      role="note"
+      className="border border-amber-300 bg-amber-50 rounded-md p-2 text-sm"
+    >
+      <p className="font-semibold text-amber-800">
+        🛡️ Guardrail “{note.guardrailName}” tripped ({note.agentName})
+      </p>
+      <p className="mt-1">
+        {segmentByMatches(note.text, note.matches).map((segment, index) =>
+          segment.match ? (
+            <mark
+              key={index}
+              title={`${segment.match.reason} (characters ${segment.match.start}–${segment.match.end})`}
+              className="bg-amber-200"
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+      <ul className="mt-1 text-xs text-gray-600">
+        {note.matches.map((match) => (
+          <li key={`${match.start}-${match.end}`}>
+            {match.reason}, characters {match.start}–{match.end}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function NoteEntry({ note }: { note: TranscriptNote }) {
+  if (note.type === "guardrail_tripped") {
+    return <GuardrailNoteEntry note={note} />;
+  }
+  if (note.type === "reconnected") {
+    return (
+      <p role="note" className="text-sm text-center text-gray-500">
+        🔌 Connection lost. Reconnected after {note.attempts}{" "}
+        {note.attempts === 1 ? "attempt" : "attempts"} and restored{" "}
+        {note.restoredTurns} turns for {note.agentName}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-sm text-gray-500">
+      {note.toolName} ({note.agentName}): {note.decision.replace("_", " ")}
+      {note.reason ? ` — ${note.reason}` : ""}
+    </p>
+  );
+}
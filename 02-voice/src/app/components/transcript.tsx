@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { Locale } from "../config/locales";
+import { isHandoffCall, type TranscriptEntry } from "../utils/transcript";
+import {
+  FunctionCallEntry,
+  HandoffEntry,
+  MessageEntry,
+  NoteEntry,
+} from "./transcript-item";
+
+type TranscriptProps = {
+  entries: TranscriptEntry[];
+  /** Name of the agent that was active when each history item was added */
+  itemAgents: Record<string, string>;
+  /** Language detected in each user turn */
+  itemLanguages?: Record<string, Locale>;
+  /** Keeps the transcripts of spoken replies folded away */
+  collapseSpokenReplies?: boolean;
+};
+
+export function Transcript({
+  entries,
+  itemAgents,
+  itemLanguages = {},
+  collapseSpokenReplies = false,
+}: TranscriptProps) {
+  const container = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    container.current?.scrollTo({
+      top: container.current.scrollHeight,
+      behavior: "smooth",
+    });
+  }, [entries]);
+
+  return (
+    <ol
+      ref={container}
+      aria-live="polite"
+      className="flex flex-col gap-3 mt-4 max-h-[70vh] overflow-y-auto"
+    >
+      {entries.map((entry) => {
+        if (entry.kind === "note") {
+          return (
+            <li key={entry.note.id}>
+              <NoteEntry note={entry.note} />
+            </li>
+          );
+        }
+
+        const { item } = entry;
+        const agentName = itemAgents[item.itemId];
+        return (
+          <li key={item.itemId}>
+            {item.type === "message" ? (
+              <MessageEntry
+                item={item}
+                agentName={agentName}
+                language={itemLanguages[item.itemId]}
+                collapseSpoken={collapseSpokenReplies}
+              />
+            ) : isHandoffCall(item) ? (
+              <HandoffEntry item={item} agentName={agentName} />
+            ) : (
+              <FunctionCallEntry item={item} agentName={agentName} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
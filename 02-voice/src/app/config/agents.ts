@@ -0,0 +1,34 @@
+import z from "zod";
+import { LOCALES } from "./locales";
+import { REALTIME_VOICES } from "./session";
+import rosterJson from "./agents.json";
+
+const agentDefinitionSchema = z.object({
+  name: z.string().min(1),
+  instructions: z.string().min(1),
+  /** Replaces `instructions` in the given locales */
+  localeInstructions: z.record(z.enum(LOCALES), z.string().min(1)).optional(),
+  /** Only takes effect for the first agent that speaks in a session */
+  voice: z.enum(REALTIME_VOICES).optional(),
+  handoffDescription: z.string().optional(),
+  /** Names of tools registered in `src/app/tools` */
+  tools: z.array(z.string()).default([]),
+  /** MCP servers from `mcp-servers.json` whose allowlisted tools to add */
+  mcpServers: z.array(z.string()).default([]),
+  /** Names of other agents in the roster */
+  handoffs: z.array(z.string()).default([]),
+});
+
+/**
+ * The voice agent roster. Edit `agents.json` to tune personas, tools and
+ * handoffs without touching the page.
+ */
+export const agentRosterSchema = z.object({
+  rootAgent: z.string().min(1),
+  agents: z.array(agentDefinitionSchema).min(1),
+});
+
+export type AgentDefinition = z.infer<typeof agentDefinitionSchema>;
+export type AgentRosterConfig = z.infer<typeof agentRosterSchema>;
+
+export const agentRosterConfig: unknown = rosterJson;
@@ -0,0 +1,53 @@
+import z from "zod";
+import guardrailsJson from "./guardrails.json";
+
+const regexSchema = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  (pattern) => ({ message: `Invalid regular expression: ${pattern}` })
+);
+
+/**
+ * Output guardrails for every agent in the roster. Edit `guardrails.json`,
+ * next to `agents.json`, to change what the assistant may say.
+ */
+export const guardrailConfigSchema = z.object({
+  /** Characters of transcript between guardrail runs, -1 for end of turn */
+  debounceTextLength: z.number().int().min(-1).default(100),
+  denyList: z
+    .object({
+      enabled: z.boolean().default(true),
+      /** Matched case-insensitively as whole words */
+      terms: z.array(z.string().min(1)).default([]),
+      patterns: z.array(regexSchema).default([]),
+    })
+    .default({}),
+  pii: z
+    .object({
+      enabled: z.boolean().default(true),
+      detect: z.array(z.enum(["email", "phone"])).default(["email", "phone"]),
+    })
+    .default({}),
+  topic: z
+    .object({
+      enabled: z.boolean().default(false),
+      allowedTopics: z.array(z.string().min(1)).default([]),
+      /** Classify each reply once, when its transcript is this long */
+      minTextLength: z.number().int().nonnegative().default(40),
+    })
+    .refine((topic) => !topic.enabled || topic.allowedTopics.length > 0, {
+      message: "allowedTopics is required when the topic guardrail is enabled",
+      path: ["allowedTopics"],
+    })
+    .default({}),
+});
+
+export type GuardrailConfig = z.infer<typeof guardrailConfigSchema>;
+
+export const guardrailConfig: unknown = guardrailsJson;
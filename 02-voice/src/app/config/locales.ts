@@ -0,0 +1,47 @@
+import z from "zod";
+import type { SessionConfig } from "./session";
+import enMessages from "./messages/en.json";
+import thMessages from "./messages/th.json";
+
+export const LOCALES = ["en", "th"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const messageCatalogSchema = z.object({
+  /** Shown in the locale picker, in the locale's own language */
+  languageName: z.string().min(1),
+  /** Appended to every agent's instructions */
+  replyInstructions: z.string().min(1),
+  /** Spoken by the root agent when a session starts */
+  greeting: z.string().min(1),
+  /** What agents say when they did not understand the user */
+  fallback: z.string().min(1),
+});
+
+export type MessageCatalog = z.infer<typeof messageCatalogSchema>;
+
+/** Phrases per locale. Edit `messages/<locale>.json` to change them. */
+export const messageCatalogs: Record<Locale, MessageCatalog> = {
+  en: messageCatalogSchema.parse(enMessages),
+  th: messageCatalogSchema.parse(thMessages),
+};
+
+type LocalePersona = {
+  /** Default voice for agents that do not set their own */
+  voice: SessionConfig["voice"];
+  /** ISO-639-1 hint for input transcription */
+  transcriptionLanguage: string;
+};
+
+export const localePersonas: Record<Locale, LocalePersona> = {
+  en: { voice: "ash", transcriptionLanguage: "en" },
+  th: { voice: "coral", transcriptionLanguage: "th" },
+};
+
+/** The language rules every agent follows in this locale */
+export function localeInstructions(locale: Locale) {
+  const { replyInstructions, fallback } = messageCatalogs[locale];
+  return `${replyInstructions}\nIf you did not understand the user, say: "${fallback}"`;
+}
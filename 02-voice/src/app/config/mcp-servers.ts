@@ -0,0 +1,52 @@
+import z from "zod";
+import mcpServersJson from "./mcp-servers.json";
+
+const mcpToolPolicySchema = z.object({
+  /** Ask the user before each call, like the built-in tools */
+  needsApproval: z.boolean().default(true),
+});
+
+const mcpServerSchema = z
+  .object({
+    /** Also the prefix of the tool names the agents see */
+    name: z
+      .string()
+      .regex(/^[a-z0-9]+$/, "Use lowercase letters and digits only"),
+    /** Started over stdio */
+    command: z.string().min(1).optional(),
+    /**
+     * Environment of the command, e.g. its API key. `${VAR}` is filled in
+     * from the server environment; the command line is not, so keys do not
+     * show up in process lists.
+     */
+    env: z.record(z.string().min(1), z.string()).default({}),
+    /** A Streamable HTTP endpoint instead of a command; `${VAR}` is filled in */
+    url: z.string().min(1).optional(),
+    /** The allowlist: tools not listed here are never exposed */
+    tools: z.record(z.string().min(1), mcpToolPolicySchema),
+  })
+  .refine((server) => !server.command !== !server.url, {
+    message: "Set either command or url",
+  });
+
+/**
+ * MCP servers whose tools the voice agents can call through the
+ * `/api/mcp/tools` route. Edit `mcp-servers.json` to add servers or allow
+ * more of their tools, and list the server under `mcpServers` in
+ * `agents.json` for the agents that should get them.
+ */
+export const mcpBridgeConfigSchema = z.object({
+  servers: z.array(mcpServerSchema).default([]),
+});
+
+export type McpServerConfig = z.infer<typeof mcpServerSchema>;
+export type McpBridgeConfig = z.infer<typeof mcpBridgeConfigSchema>;
+
+export const mcpBridgeConfig: unknown = mcpServersJson;
+
+/** Realtime tool names allow letters, digits, `_` and `-`, up to 64 long */
+export function bridgedToolName(serverName: string, toolName: string) {
+  return `${serverName}_${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, 64);
+}
@@ -0,0 +1,44 @@
+import type { SessionConfig } from "./session";
+
+/** US dollars per million tokens */
+export type ModelPrice = {
+  textInput: number;
+  cachedTextInput: number;
+  audioInput: number;
+  cachedAudioInput: number;
+  textOutput: number;
+  audioOutput: number;
+};
+
+const GPT_4O_REALTIME: ModelPrice = {
+  textInput: 5,
+  cachedTextInput: 2.5,
+  audioInput: 40,
+  cachedAudioInput: 2.5,
+  textOutput: 20,
+  audioOutput: 80,
+};
+
+const GPT_4O_MINI_REALTIME: ModelPrice = {
+  textInput: 0.6,
+  cachedTextInput: 0.3,
+  audioInput: 10,
+  cachedAudioInput: 0.3,
+  textOutput: 2.4,
+  audioOutput: 20,
+};
+
+/**
+ * Published Realtime API prices, used for the cost estimate in the metrics
+ * panel. Input transcription is billed separately and is not included.
+ * Check https://openai.com/api/pricing/ before relying on these.
+ */
+export const MODEL_PRICING: Partial<
+  Record<SessionConfig["model"], ModelPrice>
+> = {
+  "gpt-4o-realtime-preview": GPT_4O_REALTIME,
+  "gpt-4o-realtime-preview-2024-12-17": GPT_4O_REALTIME,
+  "gpt-4o-realtime-preview-2025-06-03": GPT_4O_REALTIME,
+  "gpt-4o-mini-realtime-preview": GPT_4O_MINI_REALTIME,
+  "gpt-4o-mini-realtime-preview-2024-12-17": GPT_4O_MINI_REALTIME,
+};
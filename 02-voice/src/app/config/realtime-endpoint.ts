@@ -0,0 +1,30 @@
+/**
+ * Where the voice page connects. Both default to the OpenAI API; point them
+ * at `npm run mock:realtime` to test without a network connection.
+ */
+
+/** Read by `getSessionToken` on the server, e.g. http://localhost:8787/v1 */
+export const realtimeApiBaseUrl = process.env.OPENAI_REALTIME_BASE_URL;
+
+/**
+ * Read in the browser, e.g. ws://localhost:8787/v1/realtime. When set the
+ * `websocket` transport connects here and is selected by default.
+ */
+export const realtimeWebSocketUrl = process.env.NEXT_PUBLIC_REALTIME_WS_URL;
+
+/**
+ * - `webrtc`: browser audio over WebRTC with an ephemeral key
+ * - `websocket`: events over a WebSocket straight to the API with an
+ *   ephemeral key, e.g. when WebRTC is blocked
+ * - `relay`: events over a WebSocket to our own server, which holds the API
+ *   key, for when ephemeral keys cannot be used either
+ */
+export const REALTIME_TRANSPORTS = ["webrtc", "websocket", "relay"] as const;
+
+export type RealtimeTransportKind = (typeof REALTIME_TRANSPORTS)[number];
+
+export const defaultRealtimeTransport: RealtimeTransportKind =
+  realtimeWebSocketUrl ? "websocket" : "webrtc";
+
+/** Served by the custom server in `server.ts` (`npm run dev:relay`) */
+export const REALTIME_RELAY_PATH = "/api/realtime/relay";
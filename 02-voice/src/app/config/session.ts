@@ -0,0 +1,136 @@
+import z from "zod";
+import type { RealtimeSessionConfig } from "@openai/agents/realtime";
+
+export const REALTIME_MODELS = [
+  "gpt-4o-realtime-preview",
+  "gpt-4o-realtime-preview-2024-12-17",
+  "gpt-4o-realtime-preview-2025-06-03",
+  "gpt-4o-mini-realtime-preview",
+  "gpt-4o-mini-realtime-preview-2024-12-17",
+] as const;
+
+export const REALTIME_VOICES = [
+  "alloy",
+  "ash",
+  "ballad",
+  "coral",
+  "echo",
+  "sage",
+  "shimmer",
+  "verse",
+] as const;
+
+export const TRANSCRIPTION_MODELS = [
+  "gpt-4o-transcribe",
+  "gpt-4o-mini-transcribe",
+  "whisper-1",
+] as const;
+
+export const NOISE_REDUCTION_TYPES = ["near_field", "far_field"] as const;
+
+const turnDetectionSchema = z.object({
+  type: z.enum(["server_vad", "semantic_vad"]),
+  eagerness: z.enum(["auto", "low", "medium", "high"]).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  prefixPaddingMs: z.number().int().nonnegative().optional(),
+  silenceDurationMs: z.number().int().nonnegative().optional(),
+  createResponse: z.boolean().optional(),
+  interruptResponse: z.boolean().optional(),
+});
+
+/**
+ * Options shared by the minted ephemeral key and the browser `RealtimeSession`.
+ * Validated on the server before a token is issued.
+ */
+export const sessionConfigSchema = z.object({
+  model: z.enum(REALTIME_MODELS),
+  voice: z.enum(REALTIME_VOICES),
+  instructions: z.string().min(1),
+  modalities: z.array(z.enum(["text", "audio"])).min(1),
+  inputAudioTranscription: z.object({
+    model: z.enum(TRANSCRIPTION_MODELS),
+    language: z.string().optional(),
+    prompt: z.string().optional(),
+  }),
+  /** Omit to turn input noise reduction off */
+  inputAudioNoiseReduction: z.enum(NOISE_REDUCTION_TYPES).optional(),
+  turnDetection: turnDetectionSchema,
+  toolChoice: z.enum(["auto", "none", "required"]),
+});
+
+export type SessionConfig = z.infer<typeof sessionConfigSchema>;
+
+export const defaultSessionConfig: SessionConfig = {
+  model: "gpt-4o-realtime-preview-2025-06-03",
+  voice: "ash",
+  instructions:
+    "You are a voice agent that can answer questions and help with tasks.",
+  modalities: ["text", "audio"],
+  inputAudioTranscription: {
+    model: "gpt-4o-mini-transcribe",
+  },
+  turnDetection: {
+    type: "semantic_vad",
+  },
+  toolChoice: "auto",
+};
+
+export type TurnDetection = SessionConfig["turnDetection"];
+
+/**
+ * Semantic VAD only accepts `eagerness`, while server VAD only accepts the
+ * threshold and timing options, so drop whatever the other mode uses.
+ */
+export function supportedTurnDetection(
+  turnDetection: TurnDetection
+): TurnDetection {
+  const { eagerness, threshold, prefixPaddingMs, silenceDurationMs, ...rest } =
+    turnDetection;
+  return turnDetection.type === "semantic_vad"
+    ? { ...rest, eagerness }
+    : { ...rest, threshold, prefixPaddingMs, silenceDurationMs };
+}
+
+/** How the agent answers, chosen next to the text composer */
+export const REPLY_MODALITIES = ["audio", "text", "both"] as const;
+
+export type ReplyModality = (typeof REPLY_MODALITIES)[number];
+
+/**
+ * The API only produces audio together with its transcript, so `audio` and
+ * `both` request the same output; `audio` keeps the spoken replies'
+ * transcripts collapsed in the UI.
+ */
+export function replyModalities(
+  reply: ReplyModality
+): SessionConfig["modalities"] {
+  return reply === "text" ? ["text"] : ["text", "audio"];
+}
+
+export type SessionOverrides = {
+  /** Disables server turn detection so audio is only committed on release */
+  pushToTalk?: boolean;
+};
+
+/**
+ * Maps the shared config onto the options `RealtimeSession` sends in its
+ * `session.update`. Instructions and voice are left to the active agent so
+ * handoffs keep working.
+ */
+export function toRealtimeSessionConfig(
+  config: SessionConfig,
+  { pushToTalk = false }: SessionOverrides = {}
+): Partial<RealtimeSessionConfig> {
+  return {
+    modalities: config.modalities,
+    inputAudioTranscription: config.inputAudioTranscription,
+    turnDetection: supportedTurnDetection(config.turnDetection),
+    toolChoice: config.toolChoice,
+    providerData: {
+      input_audio_noise_reduction: config.inputAudioNoiseReduction
+        ? { type: config.inputAudioNoiseReduction }
+        : null,
+      ...(pushToTalk ? { turn_detection: null } : {}),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import z from "zod";
+
+export const CALLER_AUTH_METHODS = ["cookie", "passcode"] as const;
+
+export type CallerAuthMethod = (typeof CALLER_AUTH_METHODS)[number];
+
+const tokenPolicySchema = z
+  .object({
+    /**
+     * `cookie` gives every browser a signed caller cookie on its first
+     * request; `passcode` only accepts callers who entered the passcode
+     */
+    auth: z.enum(CALLER_AUTH_METHODS),
+    passcode: z.string().min(1).optional(),
+    /** Signs the caller cookie; a random per-process secret if unset */
+    secret: z.string().min(32).optional(),
+    /** New sessions a caller may start per minute */
+    sessionsPerMinute: z.coerce.number().int().positive(),
+    /** Sessions a caller may have open at once */
+    concurrentSessions: z.coerce.number().int().positive(),
+    /** Keys a caller may mint per minute, including reconnects */
+    tokensPerMinute: z.coerce.number().int().positive(),
+    /** Tool, topic classifier and MCP calls a caller may make per minute */
+    requestsPerMinute: z.coerce.number().int().positive(),
+    /** New sessions all callers together may start per minute */
+    globalSessionsPerMinute: z.coerce.number().int().positive(),
+    /** Tool, classifier and MCP calls all callers together may make per minute */
+    globalRequestsPerMinute: z.coerce.number().int().positive(),
+    /** JSON Lines file every issued and refused token is appended to */
+    auditLogPath: z.string().min(1),
+  })
+  .refine((policy) => policy.auth !== "passcode" || policy.passcode, {
+    message: "TOKEN_AUTH_PASSCODE is required when TOKEN_AUTH is passcode",
+    path: ["passcode"],
+  });
+
+export type TokenPolicy = z.infer<typeof tokenPolicySchema>;
+
+/** Reads the token policy from the server environment */
+export function loadTokenPolicy(env = process.env): TokenPolicy {
+  return tokenPolicySchema.parse({
+    auth: env.TOKEN_AUTH ?? (env.TOKEN_AUTH_PASSCODE ? "passcode" : "cookie"),
+    passcode: env.TOKEN_AUTH_PASSCODE || undefined,
+    secret: env.TOKEN_AUTH_SECRET || undefined,
+    sessionsPerMinute: env.TOKEN_SESSIONS_PER_MINUTE ?? 3,
+    concurrentSessions: env.TOKEN_MAX_CONCURRENT_SESSIONS ?? 2,
+    tokensPerMinute: env.TOKEN_MINTS_PER_MINUTE ?? 10,
+    requestsPerMinute: env.CALLER_REQUESTS_PER_MINUTE ?? 30,
+    globalSessionsPerMinute: env.GLOBAL_SESSIONS_PER_MINUTE ?? 20,
+    globalRequestsPerMinute: env.GLOBAL_REQUESTS_PER_MINUTE ?? 300,
+    auditLogPath: env.TOKEN_AUDIT_LOG ?? "logs/token-audit.jsonl",
+  });
+}
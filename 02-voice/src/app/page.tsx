@@ -1,92 +1,1060 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   RealtimeAgent,
   RealtimeItem,
+  RealtimeOutputGuardrail,
   RealtimeSession,
-  tool,
 } from "@openai/agents/realtime";
-import { getSessionToken } from "./server/token";
-import z from "zod";
-
-const getWeather = tool({
-  name: "getWeather",
-  description: "Get the weather in a given location",
-  parameters: z.object({
-    location: z.string(),
-  }),
-  execute: async ({ location }) => {
-    return `The weather in ${location} is sunny`;
-  },
-});
-
-const weatherAgent = new RealtimeAgent({
-  name: "Weather Agent",
-  instructions: "Talk with a New York accent",
-  handoffDescription: "This agent is an expert in weather",
-  tools: [getWeather],
-});
-
-const agent = new RealtimeAgent({
-  name: "Voice Agent",
-  instructions:
-    "You are a voice agent that can answer questions and help with tasks.",
-  handoffs: [weatherAgent],
-});
+import {
+  checkRelayCaller,
+  getSessionToken,
+  releaseSessionToken,
+  renewSessionToken,
+} from "./server/token";
+import { agentRosterConfig } from "./config/agents";
+import { guardrailConfig } from "./config/guardrails";
+import { mcpBridgeConfig, mcpBridgeConfigSchema } from "./config/mcp-servers";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  localePersonas,
+  messageCatalogs,
+  type Locale,
+} from "./config/locales";
+import {
+  defaultRealtimeTransport,
+  realtimeWebSocketUrl,
+  type RealtimeTransportKind,
+} from "./config/realtime-endpoint";
+import {
+  defaultSessionConfig,
+  replyModalities,
+  toRealtimeSessionConfig,
+  type ReplyModality,
+} from "./config/session";
+import {
+  ActiveAgentBadge,
+  AgentTimeline,
+  type AgentEvent,
+  type AgentEventType,
+} from "./components/agent-timeline";
+import { AudioSettingsPanel } from "./components/audio-settings";
+import {
+  ConnectionStatus,
+  type ConnectionState,
+} from "./components/connection-status";
+import { LocalePicker } from "./components/locale-picker";
+import { McpToolsPanel } from "./components/mcp-tools-panel";
+import { MetricsPanel } from "./components/metrics-panel";
+import { PasscodePrompt } from "./components/passcode-prompt";
+import { RecordingControl } from "./components/recording-control";
+import {
+  ApprovalDialog,
+  type PendingApproval,
+} from "./components/approval-dialog";
+import { RosterIssues } from "./components/roster-issues";
+import { SessionControls } from "./components/session-controls";
+import { SessionSidebar } from "./components/session-sidebar";
+import { TextComposer } from "./components/text-composer";
+import { ToolCallInspector } from "./components/tool-call-inspector";
+import { Transcript } from "./components/transcript";
+import { voiceTools } from "./tools";
+import { loadMcpTools, type McpTools, type McpToolSets } from "./tools/mcp";
+import { buildAgentRoster } from "./utils/agent-roster";
+import {
+  audioSettingsSchema,
+  defaultAudioSettings,
+  loadAudioSettings,
+  saveAudioSettings,
+  type AudioSettings,
+} from "./utils/audio-settings";
+import {
+  buildOutputGuardrails,
+  type GuardrailOutputInfo,
+} from "./utils/guardrails";
+import { summarizeHistory } from "./utils/history-summary";
+import { loadLocale, saveLocale, userTurnLanguages } from "./utils/locale";
+import {
+  createRealtimeTransport,
+  type RealtimeConnection,
+} from "./utils/realtime-transport";
+import { startRecorder, type SessionRecorder } from "./utils/session-recorder";
+import {
+  deleteSession,
+  describeAgentRoster,
+  listSessions,
+  saveRecording,
+  saveSession,
+  type SessionRecord,
+} from "./utils/session-store";
+import { createSessionTokens, type SessionTokens } from "./utils/session-token";
+import {
+  mergeTranscript,
+  seedItemId,
+  type ApprovalDecision,
+  type TranscriptNote,
+} from "./utils/transcript";
+import {
+  toolCallDecided,
+  toolCallEnded,
+  toolCallRequested,
+  toolCallStarted,
+  type ToolCallRecord,
+} from "./utils/tool-calls";
+import {
+  createTurnMetricsTracker,
+  type TurnMetrics,
+  type TurnMetricsTracker,
+} from "./utils/turn-metrics";
+
+const mcpBridge = mcpBridgeConfigSchema.safeParse(mcpBridgeConfig);
+const mcpBridgeIssues = mcpBridge.success
+  ? []
+  : mcpBridge.error.issues.map(
+      (issue) => `mcp-servers.json: ${issue.path.join(".")}: ${issue.message}`
+    );
+/** MCP tools are listed after the page loads, so agents start without them */
+const noMcpTools: McpToolSets = Object.fromEntries(
+  (mcpBridge.data?.servers ?? []).map((server) => [server.name, []])
+);
+
+function buildRootAgents(mcpTools: McpToolSets) {
+  const rosters = LOCALES.map((locale) => ({
+    locale,
+    roster: buildAgentRoster(agentRosterConfig, voiceTools, locale, mcpTools),
+  }));
+  // Every locale is built from the same config, so they share their issues
+  const issues = [
+    ...new Set(
+      rosters.flatMap(({ roster }) => (roster.ok ? [] : roster.issues))
+    ),
+  ];
+  const agents = Object.fromEntries(
+    rosters.flatMap(({ locale, roster }) =>
+      roster.ok ? [[locale, roster.root]] : []
+    )
+  ) as Record<Locale, RealtimeAgent>;
+  return { issues, agents };
+}
+
+const initialRoster = buildRootAgents(noMcpTools);
+const rosterIssues = [...mcpBridgeIssues, ...initialRoster.issues];
+if (rosterIssues.length > 0) {
+  console.error("Invalid agent roster or MCP server config", rosterIssues);
+}
+
+const outputGuardrails = buildOutputGuardrails(guardrailConfig);
+if (!outputGuardrails.ok) {
+  console.error(
+    "Invalid guardrail config in config/guardrails.json",
+    outputGuardrails.issues
+  );
+}
+
+const MAX_TIMELINE_EVENTS = 200;
+const TIMELINE_DETAIL_LENGTH = 80;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15_000;
+/** The Realtime API's `pcm16` output format */
+const AGENT_AUDIO_SAMPLE_RATE = 24_000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Exponential backoff with jitter: about 1s, 2s, 4s, … capped at 15s */
+function reconnectDelay(attempt: number) {
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+    RECONNECT_MAX_DELAY_MS
+  );
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+/** Matches tool start and end events; hosted tools have no call ID */
+function toolCallId(toolCall: object, toolName: string) {
+  return "callId" in toolCall && typeof toolCall.callId === "string"
+    ? toolCall.callId
+    : toolName;
+}
+
+function toolCallArguments(toolCall: object) {
+  return "arguments" in toolCall && typeof toolCall.arguments === "string"
+    ? toolCall.arguments
+    : "";
+}
+
+function connectionErrorMessage(error: unknown) {
+  return error instanceof Error
+    ? error.message
+    : "Could not reach the Realtime API";
+}
+
+function truncate(text: string) {
+  return text.length > TIMELINE_DETAIL_LENGTH
+    ? `${text.slice(0, TIMELINE_DETAIL_LENGTH)}…`
+    : text;
+}
 
 export default function Home() {
+  if (rosterIssues.length > 0 || !outputGuardrails.ok) {
+    return (
+      <RosterIssues
+        issues={[
+          ...rosterIssues,
+          ...(outputGuardrails.ok ? [] : outputGuardrails.issues),
+        ]}
+      />
+    );
+  }
+  return (
+    <VoiceAgentDemo
+      agents={initialRoster.agents}
+      createGuardrails={outputGuardrails.createGuardrails}
+      debounceTextLength={outputGuardrails.debounceTextLength}
+    />
+  );
+}
+
+type VoiceAgentDemoProps = {
+  /** Root agent of the roster for each locale, before MCP tools load */
+  agents: Record<Locale, RealtimeAgent>;
+  createGuardrails: () => RealtimeOutputGuardrail[];
+  debounceTextLength: number;
+};
+
+function VoiceAgentDemo({
+  agents: initialAgents,
+  createGuardrails,
+  debounceTextLength,
+}: VoiceAgentDemoProps) {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [mcpTools, setMcpTools] = useState<McpTools | null>(null);
+  const [mcpToolsError, setMcpToolsError] = useState<string | null>(null);
+  const agents = useMemo(() => {
+    if (!mcpTools) return initialAgents;
+    const roster = buildRootAgents(mcpTools.toolSets);
+    return roster.issues.length > 0 ? initialAgents : roster.agents;
+  }, [initialAgents, mcpTools]);
+  const agent = agents[locale];
   const session = useRef<RealtimeSession | null>(null);
+  /** Mutes the current session's microphone, whichever the transport */
+  const muteSessionMic = useRef<RealtimeConnection["mute"] | null>(null);
   const [connected, setConnected] = useState(false);
   const [history, setHistory] = useState<RealtimeItem[]>([]);
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [notes, setNotes] = useState<TranscriptNote[]>([]);
+  const [itemAgents, setItemAgents] = useState<Record<string, string>>({});
+  const pushToTalkRef = useRef(false);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [talking, setTalking] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const replyRef = useRef<ReplyModality>("both");
+  const [reply, setReply] = useState<ReplyModality>("both");
+  const [agentSpeaking, setAgentSpeaking] = useState(false);
+  const sessionMeta = useRef<{ id: string; startedAt: number } | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionRecord[]>([]);
+  const [currentAgent, setCurrentAgent] = useState<string | null>(null);
+  const [agentEvents, setAgentEvents] = useState<AgentEvent[]>([]);
+  const audioSettingsRef = useRef(defaultAudioSettings);
+  const [audioSettings, setAudioSettings] = useState(defaultAudioSettings);
+  const [transportKind, setTransportKind] = useState<RealtimeTransportKind>(
+    defaultRealtimeTransport
+  );
+  const [connectionState, setConnectionState] =
+    useState<ConnectionState>("disconnected");
+  const [connectAttempts, setConnectAttempts] = useState(0);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const disconnecting = useRef(false);
+  /** Bumped on every connect and disconnect so stale reconnects stop */
+  const connectionId = useRef(0);
+  const tokens = useRef<SessionTokens | null>(null);
+  /** Identifies this session to the token action's concurrency limit */
+  const tokenLease = useRef<string | null>(null);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  /** History of earlier sessions when the connection dropped */
+  const [earlierHistory, setEarlierHistory] = useState<RealtimeItem[]>([]);
+  const metrics = useRef<TurnMetricsTracker | null>(null);
+  const [turnMetrics, setTurnMetrics] = useState<TurnMetrics[]>([]);
+  const [recordingEnabled, setRecordingEnabled] = useState(false);
+  const recorder = useRef<SessionRecorder | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [itemTimes, setItemTimes] = useState<Record<string, number>>({});
+  const [toolCalls, setToolCalls] = useState<ToolCallRecord[]>([]);
+  /**
+   * The state that reconnects and saves read after awaiting, when the
+   * render that started them is out of date
+   */
+  const latest = useRef({
+    notes,
+    itemAgents,
+    itemTimes,
+    earlierHistory,
+    agent,
+    locale,
+  });
+  const reconnectRef = useRef(reconnect);
+
+  useEffect(() => {
+    latest.current = {
+      notes,
+      itemAgents,
+      itemTimes,
+      earlierHistory,
+      agent,
+      locale,
+    };
+  }, [notes, itemAgents, itemTimes, earlierHistory, agent, locale]);
+
+  // Runs before the effect below, so a drop reconnects with this render's state
+  useEffect(() => {
+    reconnectRef.current = reconnect;
+  });
+
+  useEffect(() => {
+    listSessions().then(setSavedSessions).catch(console.error);
+    setLocale(loadLocale());
+    loadMcpTools()
+      .then(setMcpTools)
+      .catch((error) => {
+        console.error("Failed to load MCP tools", error);
+        setMcpToolsError(
+          error instanceof Error ? error.message : String(error)
+        );
+      });
+    audioSettingsRef.current = loadAudioSettings();
+    setAudioSettings(audioSettingsRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (connectionState === "dropped") {
+      reconnectRef.current();
+    }
+  }, [connectionState]);
+
+  function sessionConfig() {
+    const { voice, transcriptionLanguage } = localePersonas[locale];
+    return {
+      ...defaultSessionConfig,
+      ...audioSettingsRef.current,
+      voice,
+      inputAudioTranscription: {
+        ...audioSettingsRef.current.inputAudioTranscription,
+        language: transcriptionLanguage,
+      },
+      modalities: replyModalities(replyRef.current),
+    };
+  }
+
+  function sessionOverrides() {
+    return toRealtimeSessionConfig(sessionConfig(), {
+      pushToTalk: pushToTalkRef.current,
+    });
+  }
+
+  function muteMic(muted: boolean) {
+    muteSessionMic.current?.(muted);
+  }
+
+  /** Sends a `session.update` so the live session picks up new overrides */
+  function resendSessionConfig() {
+    const current = session.current;
+    current?.transport.updateSessionConfig({
+      voice: current.currentAgent.voice,
+    });
+  }
+
+  function logAgentEvent(
+    type: AgentEventType,
+    agentName: string,
+    detail?: string
+  ) {
+    setAgentEvents((events) =>
+      [
+        ...events,
+        {
+          id: crypto.randomUUID(),
+          type,
+          timestamp: Date.now(),
+          agentName,
+          detail,
+        },
+      ].slice(-MAX_TIMELINE_EVENTS)
+    );
+  }
 
   async function onConnect() {
     if (connected) {
-      setConnected(false);
-      await session.current?.close();
+      await disconnect();
     } else {
-      const token = await getSessionToken();
-      session.current = new RealtimeSession(agent, {
-        model: "gpt-4o-realtime-preview-2025-06-03",
-      });
-      session.current.on("transport_event", (event) => {
-        console.log(event);
-      });
-      session.current.on("history_updated", (history) => {
-        setHistory(history);
-      });
-      session.current.on(
-        "tool_approval_requested",
-        async (context, agent, approvalRequest) => {
-          const response = prompt("Approve or deny the tool call?");
-          session.current?.approve(approvalRequest.approvalItem);
+      await connect();
+    }
+  }
+
+  async function connect() {
+    connectionId.current += 1;
+    setConnectionState("connecting");
+    setConnectionError(null);
+    setConnectAttempts(1);
+    setNotes([]);
+    setItemAgents({});
+    setItemTimes({});
+    setAgentEvents([]);
+    setEarlierHistory([]);
+    setTurnMetrics([]);
+    setToolCalls([]);
+    metrics.current = createTurnMetricsTracker((turn) =>
+      setTurnMetrics((turns) => [...turns, turn])
+    );
+    // The relay uses its own API key, so there is no ephemeral key to mint
+    const leaseId = crypto.randomUUID();
+    tokenLease.current = transportKind === "relay" ? null : leaseId;
+    tokens.current =
+      transportKind === "relay"
+        ? null
+        : createSessionTokens(
+            () => mintSessionToken(leaseId),
+            () => renewSessionToken(leaseId)
+          );
+    if (recordingEnabled) {
+      // Started before the session so the first audio and items are covered
+      try {
+        recorder.current = await startRecorder();
+        setRecordingSince(recorder.current.startedAt);
+      } catch (error) {
+        console.error("Failed to start recording", error);
+      }
+    }
+    let started: RealtimeSession;
+    try {
+      started = await startSession(agent);
+    } catch (error) {
+      console.error("Failed to connect", error);
+      stopTokens();
+      await recorder.current?.stop();
+      recorder.current = null;
+      setRecordingSince(null);
+      setConnectionState("failed");
+      setConnectionError(connectionErrorMessage(error));
+      return;
+    }
+    sessionMeta.current = { id: crypto.randomUUID(), startedAt: Date.now() };
+    setConnected(true);
+    setConnectionState("connected");
+    // Only new sessions are greeted; reconnects carry on where they left off
+    started.transport.sendEvent({
+      type: "response.create",
+      response: {
+        instructions: `Greet the user by saying: "${messageCatalogs[locale].greeting}"`,
+      },
+    });
+  }
+
+  /** Refusals from the token action become errors the status line shows */
+  async function mintSessionToken(leaseId: string) {
+    const result = await getSessionToken(sessionConfig(), leaseId);
+    if (!result.ok) {
+      if (result.error.code === "unauthenticated") {
+        setNeedsPasscode(true);
+      }
+      throw new Error(result.error.message);
+    }
+    return result.token;
+  }
+
+  /** The relay uses its own key; the caller cookie is what it checks */
+  async function relayApiKey() {
+    const result = await checkRelayCaller();
+    if (!result.ok) {
+      setNeedsPasscode(true);
+      throw new Error(result.error.message);
+    }
+    return "relay";
+  }
+
+  function stopTokens() {
+    tokens.current?.stop();
+    const leaseId = tokenLease.current;
+    tokenLease.current = null;
+    if (leaseId) {
+      releaseSessionToken(leaseId).catch(console.error);
+    }
+  }
+
+  async function disconnect() {
+    // Stops a reconnect that is in progress
+    connectionId.current += 1;
+    disconnecting.current = true;
+    stopTokens();
+    setConnected(false);
+    setApprovals([]);
+    setTalking(false);
+    setMuted(false);
+    setAgentSpeaking(false);
+    setCurrentAgent(null);
+    await session.current?.close();
+    await persistSession([
+      ...latest.current.earlierHistory,
+      ...(session.current?.history ?? []),
+    ]);
+    session.current = null;
+    disconnecting.current = false;
+    setConnectionState("disconnected");
+    setConnectAttempts(0);
+  }
+
+  /**
+   * Runs when the transport closes without the user disconnecting. The
+   * conversation so far stays in the transcript and a condensed copy seeds
+   * the new session, which resumes with the agent that was active.
+   */
+  async function reconnect() {
+    const id = connectionId.current;
+    const dropped = session.current;
+    if (!dropped) {
+      return;
+    }
+    const resumeAgent = dropped.currentAgent;
+    const restored = [...latest.current.earlierHistory, ...dropped.history];
+    const summary = summarizeHistory(restored, latest.current.itemAgents);
+    session.current = null;
+    dropped.close();
+    setEarlierHistory(restored);
+    setHistory([]);
+    setApprovals([]);
+    setTalking(false);
+    setAgentSpeaking(false);
+
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+      setConnectionState("reconnecting");
+      setConnectAttempts(attempt);
+      await wait(reconnectDelay(attempt));
+      if (id !== connectionId.current) {
+        return;
+      }
+      let resumed: RealtimeSession;
+      try {
+        resumed = await startSession(resumeAgent, summary?.text);
+      } catch (error) {
+        console.error(`Reconnect attempt ${attempt} failed`, error);
+        setConnectionError(connectionErrorMessage(error));
+        continue;
+      }
+      if (id !== connectionId.current) {
+        // Disconnected while this attempt was connecting
+        resumed.close();
+        return;
+      }
+      if (summary) {
+        setNotes((notes) => [
+          ...notes,
+          {
+            type: "reconnected",
+            id: crypto.randomUUID(),
+            anchorItemId: restored.at(-1)?.itemId,
+            timestamp: Date.now(),
+            agentName: resumeAgent.name,
+            attempts: attempt,
+            restoredTurns: summary.turns,
+          },
+        ]);
+      }
+      setConnectionError(null);
+      setConnectionState("connected");
+      return;
+    }
+
+    stopTokens();
+    setConnected(false);
+    setCurrentAgent(null);
+    setConnectionState("failed");
+    setConnectionError(
+      `Could not reconnect after ${MAX_RECONNECT_ATTEMPTS} attempts`
+    );
+    await persistSession(restored);
+  }
+
+  async function startSession(
+    startingAgent: RealtimeSession["currentAgent"],
+    seed?: string
+  ) {
+    const apiKey = tokens.current
+      ? await tokens.current.take()
+      : await relayApiKey();
+    const connection = createRealtimeTransport(sessionOverrides, {
+      kind: transportKind,
+      model: defaultSessionConfig.model,
+      websocketUrl: realtimeWebSocketUrl,
+      onServerEvent: (event) => {
+        metrics.current?.handleServerEvent(event);
+        if (
+          event.type === "response.audio.delta" &&
+          typeof event.delta === "string"
+        ) {
+          recorder.current?.appendPcm16(
+            "agent",
+            event.delta,
+            AGENT_AUDIO_SAMPLE_RATE
+          );
+        }
+      },
+      onMediaStream: (track, stream) =>
+        recorder.current?.addStream(track, stream),
+      onAgentSpeaking: setAgentSpeaking,
+    });
+    muteSessionMic.current = connection.mute;
+    session.current = new RealtimeSession(startingAgent, {
+      model: defaultSessionConfig.model,
+      transport: connection.transport,
+      config: sessionOverrides(),
+      outputGuardrails: createGuardrails(),
+      outputGuardrailSettings: { debounceTextLength },
+    });
+    const current = session.current;
+    current.transport.on("connection_change", (status) => {
+      if (
+        status === "disconnected" &&
+        session.current === current &&
+        !disconnecting.current
+      ) {
+        setConnectionState((state) =>
+          state === "connected" ? "dropped" : state
+        );
+      }
+    });
+    session.current.on("transport_event", (event) => {
+      if (event.type === "output_audio_buffer.started") {
+        setAgentSpeaking(true);
+      } else if (
+        event.type === "output_audio_buffer.stopped" ||
+        event.type === "output_audio_buffer.cleared"
+      ) {
+        setAgentSpeaking(false);
+      }
+    });
+    session.current.on("audio_stopped", () => setAgentSpeaking(false));
+    session.current.on("audio_interrupted", () => setAgentSpeaking(false));
+    session.current.on("history_updated", (history) => {
+      setHistory(history);
+    });
+    session.current.on("history_added", (item) => {
+      setItemTimes((itemTimes) => ({
+        ...itemTimes,
+        [item.itemId]: Date.now(),
+      }));
+      const agentName = session.current?.currentAgent.name;
+      if (agentName) {
+        setItemAgents((itemAgents) => ({
+          ...itemAgents,
+          [item.itemId]: agentName,
+        }));
+      }
+    });
+    session.current.on("agent_handoff", (context, fromAgent, toAgent) => {
+      setCurrentAgent(toAgent.name);
+      logAgentEvent("agent_handoff", fromAgent.name, `→ ${toAgent.name}`);
+    });
+    session.current.on("agent_start", (context, agent) => {
+      logAgentEvent("agent_start", agent.name);
+    });
+    session.current.on("agent_end", (context, agent, output) => {
+      logAgentEvent("agent_end", agent.name, truncate(output) || undefined);
+    });
+    session.current.on(
+      "agent_tool_start",
+      (context, agent, tool, { toolCall }) => {
+        logAgentEvent("agent_tool_start", agent.name, tool.name);
+        metrics.current?.toolStarted(toolCallId(toolCall, tool.name));
+        setToolCalls((calls) =>
+          toolCallStarted(calls, {
+            callId: toolCallId(toolCall, tool.name),
+            name: tool.name,
+            agentName: agent.name,
+            rawArguments: toolCallArguments(toolCall),
+          })
+        );
+      }
+    );
+    session.current.on(
+      "agent_tool_end",
+      (context, agent, tool, result, { toolCall }) => {
+        logAgentEvent(
+          "agent_tool_end",
+          agent.name,
+          `${tool.name}: ${truncate(result)}`
+        );
+        metrics.current?.toolEnded(toolCallId(toolCall, tool.name), tool.name);
+        setToolCalls((calls) =>
+          toolCallEnded(
+            calls,
+            {
+              callId: toolCallId(toolCall, tool.name),
+              name: tool.name,
+              agentName: agent.name,
+              rawArguments: toolCallArguments(toolCall),
+            },
+            result
+          )
+        );
+      }
+    );
+    session.current.on(
+      "guardrail_tripped",
+      (context, agent, error, { itemId }) => {
+        const { guardrail, agentOutput, output } = error.result;
+        const { matches } = output.outputInfo as GuardrailOutputInfo;
+        setNotes((notes) => [
+          ...notes,
+          {
+            type: "guardrail_tripped",
+            id: crypto.randomUUID(),
+            anchorItemId: itemId,
+            timestamp: Date.now(),
+            agentName: agent.name,
+            guardrailName: guardrail.name,
+            text: agentOutput,
+            matches,
+          },
+        ]);
+      }
+    );
+    session.current.on(
+      "tool_approval_requested",
+      (context, agent, approvalRequest) => {
+        const { rawItem } = approvalRequest.approvalItem;
+        if (rawItem.type !== "function_call") {
+          return;
         }
+        setApprovals((approvals) => [
+          ...approvals,
+          {
+            callId: rawItem.callId,
+            toolName: rawItem.name,
+            agentName: agent.name,
+            rawArguments: rawItem.arguments,
+            approvalItem: approvalRequest.approvalItem,
+          },
+        ]);
+        setToolCalls((calls) =>
+          toolCallRequested(calls, {
+            callId: rawItem.callId,
+            name: rawItem.name,
+            agentName: agent.name,
+            rawArguments: rawItem.arguments,
+          })
+        );
+      }
+    );
+    try {
+      await current.connect({ apiKey });
+    } catch (error) {
+      current.close();
+      session.current = null;
+      throw error;
+    }
+    if (seed) {
+      current.transport.sendEvent({
+        type: "conversation.item.create",
+        item: {
+          id: seedItemId(),
+          type: "message",
+          role: "system",
+          content: [{ type: "input_text", text: seed }],
+        },
+      });
+    }
+    tokens.current?.keepAlive();
+    muteMic(pushToTalkRef.current);
+    setCurrentAgent(startingAgent.name);
+    return current;
+  }
+
+  /** Stops the recorder and stores its audio under the given session */
+  async function saveRecordingFor(sessionId: string) {
+    const active = recorder.current;
+    recorder.current = null;
+    setRecordingSince(null);
+    if (!active) {
+      return undefined;
+    }
+    try {
+      const recording = await active.stop();
+      await saveRecording({ ...recording, sessionId });
+      const samples = Math.max(
+        recording.tracks.mic.length,
+        recording.tracks.agent.length
       );
-      await session.current.connect({
-        apiKey: token,
+      return {
+        startedAt: recording.startedAt,
+        durationMs: Math.round((samples / recording.sampleRate) * 1000),
+      };
+    } catch (error) {
+      console.error("Failed to save recording", error);
+      return undefined;
+    }
+  }
+
+  async function persistSession(history: RealtimeItem[]) {
+    const meta = sessionMeta.current;
+    if (!meta) {
+      return;
+    }
+    sessionMeta.current = null;
+    try {
+      const recording = await saveRecordingFor(meta.id);
+      // The latest state, not that of the render that started the save
+      const { notes, itemAgents, itemTimes, agent, locale } = latest.current;
+      await saveSession({
+        ...meta,
+        endedAt: Date.now(),
+        agents: describeAgentRoster(agent),
+        history,
+        notes,
+        itemAgents,
+        itemTimes,
+        recording,
+        locale,
+        itemLanguages: userTurnLanguages(history),
       });
-      setConnected(true);
+      setSavedSessions(await listSessions());
+    } catch (error) {
+      console.error("Failed to save session", error);
     }
   }
 
+  async function onDeleteSession(id: string) {
+    await deleteSession(id);
+    setSavedSessions(await listSessions());
+  }
+
+  function recordDecision(
+    request: PendingApproval,
+    decision: ApprovalDecision,
+    reason?: string
+  ) {
+    setApprovals((approvals) => approvals.slice(1));
+    setToolCalls((calls) =>
+      toolCallDecided(calls, request.callId, decision, reason)
+    );
+    setNotes((notes) => [
+      ...notes,
+      {
+        type: "tool_approval",
+        id: crypto.randomUUID(),
+        anchorItemId: request.approvalItem.rawItem.id,
+        timestamp: Date.now(),
+        toolName: request.toolName,
+        agentName: request.agentName,
+        decision,
+        reason,
+      },
+    ]);
+  }
+
+  async function onApprove(request: PendingApproval, alwaysApprove: boolean) {
+    recordDecision(request, alwaysApprove ? "always_approved" : "approved");
+    await session.current?.approve(request.approvalItem, { alwaysApprove });
+  }
+
+  async function onReject(request: PendingApproval, reason: string) {
+    recordDecision(request, "rejected", reason || undefined);
+    if (reason) {
+      // Give the model the user's reason before the rejection triggers a response
+      session.current?.transport.sendEvent({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "system",
+          content: [
+            {
+              type: "input_text",
+              text: `The user rejected the ${request.toolName} tool call: ${reason}`,
+            },
+          ],
+        },
+      });
+    }
+    await session.current?.reject(request.approvalItem);
+  }
+
+  function onLocaleChange(locale: Locale) {
+    setLocale(locale);
+    saveLocale(locale);
+  }
+
+  async function onReturnToRoot() {
+    await session.current?.updateAgent(agent);
+  }
+
+  function onPushToTalkChange(enabled: boolean) {
+    pushToTalkRef.current = enabled;
+    setPushToTalk(enabled);
+    setTalking(false);
+    setMuted(false);
+    const current = session.current;
+    if (!connected || !current) {
+      return;
+    }
+    // Re-send the session config so turn detection follows the new mode
+    resendSessionConfig();
+    muteMic(enabled);
+  }
+
+  function onReplyChange(modality: ReplyModality) {
+    replyRef.current = modality;
+    setReply(modality);
+    if (connected) {
+      resendSessionConfig();
+    }
+  }
+
+  /** Typed turns join the same conversation as spoken ones */
+  function onSendText(text: string) {
+    const current = session.current;
+    if (!current) {
+      return;
+    }
+    current.interrupt();
+    metrics.current?.startTurn("text");
+    current.sendMessage(text);
+  }
+
+  function onAudioSettingsChange(settings: AudioSettings) {
+    setAudioSettings(settings);
+    // Keep half-typed values in the form, but only apply valid settings
+    if (!audioSettingsSchema.safeParse(settings).success) {
+      return;
+    }
+    audioSettingsRef.current = settings;
+    saveAudioSettings(settings);
+    if (connected) {
+      resendSessionConfig();
+    }
+  }
+
+  function onTalkStart() {
+    const current = session.current;
+    if (!current || talking) {
+      return;
+    }
+    current.interrupt();
+    current.transport.sendEvent({ type: "input_audio_buffer.clear" });
+    muteMic(false);
+    setTalking(true);
+  }
+
+  function onTalkEnd() {
+    const current = session.current;
+    if (!current || !talking) {
+      return;
+    }
+    muteMic(true);
+    setTalking(false);
+    metrics.current?.startTurn("push_to_talk");
+    current.transport.sendEvent({ type: "input_audio_buffer.commit" });
+    current.transport.sendEvent({ type: "response.create" });
+  }
+
+  function onMuteChange(muted: boolean) {
+    muteMic(muted);
+    setMuted(muted);
+  }
+
+  const pendingApproval = approvals[0];
+  /** Options that shape a session can only change between sessions */
+  const sessionActive =
+    connectionState !== "disconnected" && connectionState !== "failed";
+  const transcriptHistory = [...earlierHistory, ...history];
+
   return (
-    <div className="p-8">
-      <h1 className="text-2xl font-bold mb-4">Voice Agent Demo</h1>
-      <button
-        onClick={onConnect}
-        className="bg-black text-white p-2 rounded-md hover:bg-gray-800 cursor-pointer"
-      >
-        {connected ? "Disconnect" : "Connect"}
-      </button>
-      <ul>
-        {history
-          .filter((item) => item.type === "message")
-          .map((item) => (
-            <li key={item.itemId}>
-              {item.role}: {JSON.stringify(item.content)}
-            </li>
-          ))}
-      </ul>
+    <div className="flex h-screen">
+      <SessionSidebar sessions={savedSessions} onDelete={onDeleteSession} />
+      <main className="flex-1 p-8 overflow-y-auto">
+        <h1 className="text-2xl font-bold mb-4">Voice Agent Demo</h1>
+        <button
+          onClick={onConnect}
+          disabled={connectionState === "connecting"}
+          className="bg-black text-white p-2 rounded-md hover:bg-gray-800 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {connected ? "Disconnect" : "Connect"}
+        </button>
+        <ConnectionStatus
+          transport={transportKind}
+          state={connectionState}
+          attempts={connectAttempts}
+          error={connectionError}
+          onTransportChange={setTransportKind}
+        />
+        {needsPasscode && (
+          <PasscodePrompt
+            onSignedIn={() => {
+              setNeedsPasscode(false);
+              setConnectionError(null);
+            }}
+          />
+        )}
+        <LocalePicker
+          locale={locale}
+          locked={sessionActive}
+          onChange={onLocaleChange}
+        />
+        <RecordingControl
+          enabled={recordingEnabled}
+          recordingSince={recordingSince}
+          locked={sessionActive}
+          onEnabledChange={setRecordingEnabled}
+        />
+        <SessionControls
+          connected={connectionState === "connected"}
+          pushToTalk={pushToTalk}
+          talking={talking}
+          muted={muted}
+          agentSpeaking={agentSpeaking}
+          onPushToTalkChange={onPushToTalkChange}
+          onTalkStart={onTalkStart}
+          onTalkEnd={onTalkEnd}
+          onMuteChange={onMuteChange}
+          onInterrupt={() => session.current?.interrupt()}
+        />
+        <TextComposer
+          connected={connectionState === "connected"}
+          reply={reply}
+          onReplyChange={onReplyChange}
+          onSend={onSendText}
+        />
+        <AudioSettingsPanel
+          settings={audioSettings}
+          connected={connected}
+          onChange={onAudioSettingsChange}
+          onReset={() => onAudioSettingsChange(defaultAudioSettings)}
+        />
+        <ActiveAgentBadge
+          agentName={currentAgent}
+          rootAgentName={agent.name}
+          onReturnToRoot={onReturnToRoot}
+        />
+        <AgentTimeline events={agentEvents} />
+        <McpToolsPanel tools={mcpTools} error={mcpToolsError} />
+        <MetricsPanel turns={turnMetrics} model={defaultSessionConfig.model} />
+        <ToolCallInspector calls={toolCalls} />
+        <Transcript
+          entries={mergeTranscript(transcriptHistory, notes)}
+          itemAgents={itemAgents}
+          itemLanguages={userTurnLanguages(transcriptHistory)}
+          collapseSpokenReplies={reply === "audio"}
+        />
+        {pendingApproval && (
+          <ApprovalDialog
+            key={pendingApproval.callId}
+            request={pendingApproval}
+            onApprove={(alwaysApprove) =>
+              onApprove(pendingApproval, alwaysApprove)
+            }
+            onReject={(reason) => onReject(pendingApproval, reason)}
+          />
+        )}
+      </main>
     </div>
   );
 }
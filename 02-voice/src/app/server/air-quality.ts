@@ -0,0 +1,143 @@
+"use server";
+
+import z from "zod";
+import { checkCallerRequest } from "./caller-guard";
+import { TOOL_ERRORS, type ToolResult } from "./tool-result";
+
+const AQICN_URL = "https://api.waqi.info/feed";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type AirQualityData = {
+  location: string;
+  aqi: number;
+  level: string;
+  dominantPollutant?: string;
+  healthImplications: string;
+};
+
+const aqicnResponseSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("ok"),
+    data: z.object({
+      aqi: z.coerce.number(),
+      dominentpol: z.string().optional(),
+      city: z.object({ name: z.string() }),
+    }),
+  }),
+  z.object({
+    status: z.literal("error"),
+    data: z.string().optional(),
+  }),
+]);
+
+function aqiLevel(aqi: number) {
+  if (aqi <= 50) return "Good";
+  if (aqi <= 100) return "Moderate";
+  if (aqi <= 150) return "Unhealthy for Sensitive Groups";
+  if (aqi <= 200) return "Unhealthy";
+  if (aqi <= 300) return "Very Unhealthy";
+  return "Hazardous";
+}
+
+function healthImplications(aqi: number) {
+  if (aqi <= 50) {
+    return "Air quality is considered satisfactory, and air pollution poses little or no risk.";
+  } else if (aqi <= 100) {
+    return "Air quality is acceptable for most people. However, sensitive individuals may experience minor symptoms.";
+  } else if (aqi <= 150) {
+    return "Members of sensitive groups may experience health effects. The general public is not likely to be affected.";
+  } else if (aqi <= 200) {
+    return "Everyone may begin to experience health effects; members of sensitive groups may experience more serious health effects.";
+  } else if (aqi <= 300) {
+    return "Health warnings of emergency conditions. The entire population is more likely to be affected.";
+  }
+  return "Health alert: everyone may experience more serious health effects. Avoid outdoor activities.";
+}
+
+/**
+ * Looks up current air quality on AQICN. Runs on the server so AQICN_API_KEY
+ * never reaches the browser.
+ */
+export async function getAirQuality(
+  location: string
+): Promise<ToolResult<AirQualityData>> {
+  const parsed = z.string().trim().min(1).safeParse(location);
+  if (!parsed.success) {
+    return { error: TOOL_ERRORS.INVALID_LOCATION };
+  }
+
+  const check = await checkCallerRequest();
+  if (!check.ok) {
+    return { error: check.error.message };
+  }
+
+  const apiKey = process.env.AQICN_API_KEY;
+  if (!apiKey) {
+    return {
+      error: TOOL_ERRORS.AIR_QUALITY_API_KEY_MISSING,
+      instructions: TOOL_ERRORS.AIR_QUALITY_API_KEY_INSTRUCTIONS,
+    };
+  }
+
+  const url = new URL(`${AQICN_URL}/${encodeURIComponent(parsed.data)}/`);
+  url.searchParams.set("token", apiKey);
+
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return {
+        error: TOOL_ERRORS.FETCH_ERROR,
+        details: `AQICN responded with ${response.status}`,
+      };
+    }
+
+    const body = aqicnResponseSchema.parse(await response.json());
+    if (body.status !== "ok") {
+      // AQICN reports unknown stations and bad tokens with a 200 and an error status
+      if (body.data === "Invalid key") {
+        return {
+          error: TOOL_ERRORS.FETCH_ERROR,
+          details: "AQICN rejected the API key",
+          instructions: TOOL_ERRORS.AIR_QUALITY_API_KEY_INSTRUCTIONS,
+        };
+      }
+      return {
+        error: TOOL_ERRORS.LOCATION_NOT_FOUND,
+        suggestion: TOOL_ERRORS.LOCATION_SUGGESTION,
+      };
+    }
+
+    const { aqi, dominentpol, city } = body.data;
+    const airQuality: AirQualityData = {
+      location: city.name,
+      aqi,
+      level: aqiLevel(aqi),
+      dominantPollutant: dominentpol?.toUpperCase(),
+      healthImplications: healthImplications(aqi),
+    };
+
+    return {
+      success: true,
+      data: airQuality,
+      summary: `Air quality in ${airQuality.location}: AQI ${airQuality.aqi} (${
+        airQuality.level
+      })${
+        airQuality.dominantPollutant
+          ? `, mostly ${airQuality.dominantPollutant}`
+          : ""
+      }. ${airQuality.healthImplications}`,
+    };
+  } catch (error) {
+    console.error("Air Quality API error:", error);
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      return { error: TOOL_ERRORS.TIMEOUT };
+    }
+    return {
+      error: TOOL_ERRORS.FETCH_ERROR,
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
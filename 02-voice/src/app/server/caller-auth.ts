@@ -0,0 +1,27 @@
+"use server";
+
+import { loadTokenPolicy } from "../config/token-policy";
+import { issueCallerCookie, passcodeMatches } from "./caller-identity";
+
+/** Slows down guessing; every wrong passcode costs this long */
+const FAILED_ATTEMPT_DELAY_MS = 1000;
+
+export type SignInResult = { ok: true } | { ok: false; message: string };
+
+/** Trades the shared passcode for a signed caller cookie */
+export async function signInWithPasscode(
+  passcode: string
+): Promise<SignInResult> {
+  const policy = loadTokenPolicy();
+  if (policy.auth !== "passcode") {
+    return { ok: true };
+  }
+  if (!passcodeMatches(passcode, policy)) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, FAILED_ATTEMPT_DELAY_MS)
+    );
+    return { ok: false, message: "That passcode is not correct." };
+  }
+  await issueCallerCookie("passcode", policy);
+  return { ok: true };
+}
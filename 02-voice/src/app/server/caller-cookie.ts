@@ -0,0 +1,79 @@
+// No "server-only": the relay in server.ts reads this cookie outside Next.js
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import type { CallerAuthMethod, TokenPolicy } from "../config/token-policy";
+
+export type CallerIdentity = {
+  id: string;
+  method: CallerAuthMethod;
+};
+
+export const CALLER_COOKIE_NAME = "voice-demo-caller";
+
+// Next.js bundles its own copy of this module apart from the one server.ts
+// loads, so the fallback secret lives on globalThis for both to agree on
+const globalForCookie = globalThis as typeof globalThis & {
+  callerCookieSecret?: string;
+};
+
+/** Without TOKEN_AUTH_SECRET, caller cookies stop verifying after a restart */
+function cookieSecret(policy: TokenPolicy) {
+  return (
+    policy.secret ??
+    (globalForCookie.callerCookieSecret ??= randomBytes(32).toString("hex"))
+  );
+}
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function safeEqual(a: string, b: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/** The cookie holds `<method>.<caller id>.<signature>` */
+export function signCallerCookie(
+  { id, method }: CallerIdentity,
+  policy: TokenPolicy
+) {
+  return `${method}.${id}.${sign(`${method}.${id}`, cookieSecret(policy))}`;
+}
+
+export function verifyCallerCookie(
+  value: string | undefined,
+  policy: TokenPolicy
+): CallerIdentity | null {
+  const [method, id, signature] = value?.split(".") ?? [];
+  if (!method || !id || !signature) {
+    return null;
+  }
+  if (!safeEqual(signature, sign(`${method}.${id}`, cookieSecret(policy)))) {
+    return null;
+  }
+  return { id, method: method as CallerAuthMethod };
+}
+
+/** Reads the caller from a raw `Cookie` header, e.g. of a WebSocket upgrade */
+export function callerFromCookieHeader(
+  header: string | undefined,
+  policy: TokenPolicy
+): CallerIdentity | null {
+  for (const pair of header?.split(";") ?? []) {
+    const separator = pair.indexOf("=");
+    if (pair.slice(0, separator).trim() === CALLER_COOKIE_NAME) {
+      const caller = verifyCallerCookie(
+        decodeURIComponent(pair.slice(separator + 1).trim()),
+        policy
+      );
+      // Same rule as the identity providers: the cookie must match the mode
+      return caller?.method === policy.auth ? caller : null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,50 @@
+import "server-only";
+import { callerIdentityProvider, type CallerIdentity } from "./caller-identity";
+import { callerLimits } from "./caller-limits";
+
+export type CallerRefusal = {
+  code: "unauthenticated" | "rate_limited";
+  /** Safe to show to the user */
+  message: string;
+  retryAfterMs?: number;
+};
+
+export type CallerCheck =
+  | { ok: true; caller: CallerIdentity }
+  | { ok: false; error: CallerRefusal };
+
+export const UNAUTHENTICATED: CallerRefusal = {
+  code: "unauthenticated",
+  message: "Enter the demo passcode to start a voice session.",
+};
+
+/** The caller check and limits shared by everything on the server's API keys */
+export function callerGuard() {
+  const { policy, limiter } = callerLimits();
+  return { policy, identity: callerIdentityProvider(policy), limiter };
+}
+
+/**
+ * Checks a call that spends the server's API keys without a session token:
+ * a tool, the topic classifier or an MCP tool. It counts towards the
+ * caller's request limit.
+ */
+export async function checkCallerRequest(): Promise<CallerCheck> {
+  const { identity, limiter } = callerGuard();
+  const caller = await identity.identify();
+  if (!caller) {
+    return { ok: false, error: UNAUTHENTICATED };
+  }
+  const decision = limiter.request(caller.id);
+  if (!decision.allowed) {
+    return {
+      ok: false,
+      error: {
+        code: "rate_limited",
+        message: decision.message,
+        retryAfterMs: decision.retryAfterMs,
+      },
+    };
+  }
+  return { ok: true, caller };
+}
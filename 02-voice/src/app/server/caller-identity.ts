@@ -0,0 +1,86 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { cookies } from "next/headers";
+import type { CallerAuthMethod, TokenPolicy } from "../config/token-policy";
+import {
+  CALLER_COOKIE_NAME,
+  safeEqual,
+  signCallerCookie,
+  verifyCallerCookie,
+  type CallerIdentity,
+} from "./caller-cookie";
+
+export type { CallerIdentity };
+
+/**
+ * Decides who is asking for a session token. Returning `null` refuses the
+ * request. Swap in another provider (e.g. one backed by your own sign-in)
+ * in `callerIdentityProvider`.
+ */
+export type CallerIdentityProvider = {
+  method: CallerAuthMethod;
+  identify: () => Promise<CallerIdentity | null>;
+};
+
+const COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+async function readCallerCookie(
+  policy: TokenPolicy
+): Promise<CallerIdentity | null> {
+  const value = (await cookies()).get(CALLER_COOKIE_NAME)?.value;
+  return verifyCallerCookie(value, policy);
+}
+
+/** Gives the browser a new caller id, signed so it cannot be forged */
+export async function issueCallerCookie(
+  method: CallerAuthMethod,
+  policy: TokenPolicy
+): Promise<CallerIdentity> {
+  const caller = { id: randomUUID(), method };
+  (await cookies()).set(CALLER_COOKIE_NAME, signCallerCookie(caller, policy), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: COOKIE_MAX_AGE_SECONDS,
+    path: "/",
+  });
+  return caller;
+}
+
+export function passcodeMatches(passcode: string, policy: TokenPolicy) {
+  return policy.passcode !== undefined && safeEqual(passcode, policy.passcode);
+}
+
+/** Every browser is a caller; the cookie is what rate limits are keyed on */
+export function signedCookieIdentity(
+  policy: TokenPolicy
+): CallerIdentityProvider {
+  return {
+    method: "cookie",
+    async identify() {
+      const caller = await readCallerCookie(policy);
+      return caller?.method === "cookie"
+        ? caller
+        : issueCallerCookie("cookie", policy);
+    },
+  };
+}
+
+/** Only browsers that signed in with the shared passcode are callers */
+export function passcodeIdentity(policy: TokenPolicy): CallerIdentityProvider {
+  return {
+    method: "passcode",
+    async identify() {
+      const caller = await readCallerCookie(policy);
+      return caller?.method === "passcode" ? caller : null;
+    },
+  };
+}
+
+export function callerIdentityProvider(
+  policy: TokenPolicy
+): CallerIdentityProvider {
+  return policy.auth === "passcode"
+    ? passcodeIdentity(policy)
+    : signedCookieIdentity(policy);
+}
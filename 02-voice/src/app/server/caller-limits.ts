@@ -0,0 +1,31 @@
+// No "server-only": the relay in server.ts takes its leases from here
+import { loadTokenPolicy, type TokenPolicy } from "../config/token-policy";
+import { createTokenRateLimiter } from "./token-rate-limiter";
+
+export type CallerLimits = {
+  policy: TokenPolicy;
+  limiter: ReturnType<typeof createTokenRateLimiter>;
+};
+
+// Next.js bundles its own copy of this module apart from the one server.ts
+// loads; keeping the limiter on globalThis makes the relay and the server
+// actions count against the same limits
+const globalForLimits = globalThis as typeof globalThis & {
+  callerLimits?: CallerLimits;
+};
+
+/**
+ * The token policy and the limiter shared by everything that spends the
+ * server's API keys. Read on first use, so a bad policy fails the request
+ * rather than the page.
+ */
+export function callerLimits(): CallerLimits {
+  if (!globalForLimits.callerLimits) {
+    const policy = loadTokenPolicy();
+    globalForLimits.callerLimits = {
+      policy,
+      limiter: createTokenRateLimiter(policy),
+    };
+  }
+  return globalForLimits.callerLimits;
+}
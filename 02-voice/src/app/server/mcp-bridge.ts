@@ -0,0 +1,212 @@
+import "server-only";
+import { getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  MCPServerStdio,
+  MCPServerStreamableHttp,
+  type MCPServer,
+} from "@openai/agents";
+import {
+  bridgedToolName,
+  mcpBridgeConfig,
+  mcpBridgeConfigSchema,
+  type McpServerConfig,
+} from "../config/mcp-servers";
+
+/** What the browser needs to declare an MCP tool for the realtime agents */
+export type BridgedTool = {
+  /** Unique across servers, e.g. `context7_get-library-docs` */
+  name: string;
+  server: string;
+  description: string;
+  /** JSON schema of the arguments, as the MCP server lists it */
+  parameters: Record<string, unknown>;
+  needsApproval: boolean;
+};
+
+export type McpServerStatus = {
+  name: string;
+  connected: boolean;
+  /** Safe to show in the browser; the details are in the server log */
+  error?: string;
+  /** Allowlisted tools the server does not offer */
+  missingTools?: string[];
+};
+
+export type McpToolListing = {
+  servers: McpServerStatus[];
+  tools: BridgedTool[];
+};
+
+export type McpToolContent = Awaited<ReturnType<MCPServer["callTool"]>>;
+
+/** Page loads within this share one listing instead of asking every server */
+const LISTING_TTL_MS = 60_000;
+
+// Dev reloads run this module again; keep one child process per server
+const globalForMcp = globalThis as typeof globalThis & {
+  mcpConnections?: Map<string, Promise<MCPServer>>;
+  mcpListing?: { listing: Promise<McpToolListing>; expiresAt: number };
+};
+const connections = (globalForMcp.mcpConnections ??= new Map());
+
+function loadServers(): McpServerConfig[] {
+  return mcpBridgeConfigSchema.parse(mcpBridgeConfig).servers;
+}
+
+/** Names the missing variable, never a value, so the browser may see it */
+class McpServerEnvError extends Error {
+  constructor(name: string) {
+    super(`${name} is not set`);
+    this.name = "McpServerEnvError";
+  }
+}
+
+/** Fills in `${VAR}` placeholders, failing on the first one that is not set */
+function expandEnv(value: string) {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+    const env = process.env[name];
+    if (!env) {
+      throw new McpServerEnvError(name);
+    }
+    return env;
+  });
+}
+
+function createServer(config: McpServerConfig): MCPServer {
+  return config.command
+    ? new MCPServerStdio({
+        name: config.name,
+        fullCommand: config.command,
+        // Replaces the environment, so start from what the MCP SDK passes on
+        env: {
+          ...getDefaultEnvironment(),
+          ...Object.fromEntries(
+            Object.entries(config.env).map(([name, value]) => [
+              name,
+              expandEnv(value),
+            ])
+          ),
+        },
+        cacheToolsList: true,
+      })
+    : new MCPServerStreamableHttp({
+        name: config.name,
+        url: expandEnv(config.url!),
+        cacheToolsList: true,
+      });
+}
+
+function connect(config: McpServerConfig): Promise<MCPServer> {
+  let connection = connections.get(config.name);
+  if (!connection) {
+    connection = (async () => {
+      const server = createServer(config);
+      await server.connect();
+      return server;
+    })();
+    connections.set(config.name, connection);
+    // A server that failed to start is tried again on the next request
+    connection.catch(() => connections.delete(config.name));
+  }
+  return connection;
+}
+
+/**
+ * Lists the allowlisted tools of every configured server. Servers that are
+ * missing an API key or fail to start are reported rather than thrown, so
+ * the other servers' tools stay usable.
+ */
+async function listServerTools(): Promise<McpToolListing> {
+  const listing: McpToolListing = { servers: [], tools: [] };
+
+  for (const config of loadServers()) {
+    try {
+      const server = await connect(config);
+      const available = new Map(
+        (await server.listTools()).map((tool) => [tool.name, tool])
+      );
+      const missingTools: string[] = [];
+      for (const [toolName, policy] of Object.entries(config.tools)) {
+        const tool = available.get(toolName);
+        if (!tool) {
+          missingTools.push(toolName);
+          continue;
+        }
+        listing.tools.push({
+          name: bridgedToolName(config.name, toolName),
+          server: config.name,
+          description: tool.description ?? toolName,
+          parameters: tool.inputSchema,
+          needsApproval: policy.needsApproval,
+        });
+      }
+      listing.servers.push({
+        name: config.name,
+        connected: true,
+        ...(missingTools.length > 0 ? { missingTools } : {}),
+      });
+    } catch (error) {
+      console.error(`MCP server "${config.name}" is unavailable`, error);
+      listing.servers.push({
+        name: config.name,
+        connected: false,
+        // Start errors can hold expanded keys or server paths
+        error:
+          error instanceof McpServerEnvError
+            ? error.message
+            : "The server could not be started",
+      });
+    }
+  }
+
+  return listing;
+}
+
+/**
+ * The tool listing, cached for `LISTING_TTL_MS` so that page loads do not
+ * start servers that failed a moment ago again; they are retried after it.
+ */
+export function listBridgedTools(): Promise<McpToolListing> {
+  const now = Date.now();
+  const cached = globalForMcp.mcpListing;
+  if (cached && cached.expiresAt > now) {
+    return cached.listing;
+  }
+  const listing = listServerTools();
+  globalForMcp.mcpListing = { listing, expiresAt: now + LISTING_TTL_MS };
+  listing.catch(() => {
+    if (globalForMcp.mcpListing?.listing === listing) {
+      delete globalForMcp.mcpListing;
+    }
+  });
+  return listing;
+}
+
+/** Finds an allowlisted tool by its bridged name */
+function findBridgedTool(name: string) {
+  for (const config of loadServers()) {
+    for (const toolName of Object.keys(config.tools)) {
+      if (bridgedToolName(config.name, toolName) === name) {
+        return { config, toolName };
+      }
+    }
+  }
+  throw new UnknownMcpToolError(name);
+}
+
+/** Calls a tool by its bridged name; only allowlisted tools resolve */
+export async function callBridgedTool(
+  name: string,
+  args: Record<string, unknown>
+): Promise<McpToolContent> {
+  const { config, toolName } = findBridgedTool(name);
+  const server = await connect(config);
+  return server.callTool(toolName, args);
+}
+
+export class UnknownMcpToolError extends Error {
+  constructor(name: string) {
+    super(`"${name}" is not an allowed MCP tool`);
+    this.name = "UnknownMcpToolError";
+  }
+}
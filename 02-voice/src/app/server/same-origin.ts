@@ -0,0 +1,18 @@
+import "server-only";
+
+/**
+ * Refuses posts from other sites. Requests without an `Origin` header are
+ * not from a browser page; an origin that is not a URL (e.g. `null` from a
+ * sandboxed frame) is treated as another site.
+ */
+export function isSameOrigin(request: Request) {
+  const origin = request.headers.get("origin");
+  if (origin === null) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === new URL(request.url).host;
+  } catch {
+    return false;
+  }
+}
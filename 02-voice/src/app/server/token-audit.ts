@@ -0,0 +1,33 @@
+// No "server-only": the relay in server.ts loads this outside Next.js
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { CallerAuthMethod } from "../config/token-policy";
+
+/**
+ * One line of the audit log; the key itself is never written. `relayed`
+ * is a session opened through the relay, which uses the server's own key.
+ */
+export type TokenAuditEntry = {
+  outcome: "issued" | "relayed" | "unauthenticated" | "rate_limited" | "failed";
+  auth: CallerAuthMethod;
+  callerId: string | null;
+  leaseId: string;
+  model: string;
+  /** When the issued key expires */
+  expiresAt?: string;
+  reason?: string;
+};
+
+/** Appends the entry as a JSON line; a failed write is logged, not thrown */
+export async function recordTokenAudit(
+  logPath: string,
+  entry: TokenAuditEntry
+) {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  try {
+    await mkdir(path.dirname(logPath), { recursive: true });
+    await appendFile(logPath, `${line}\n`);
+  } catch (error) {
+    console.error("Failed to write the token audit log", error, line);
+  }
+}
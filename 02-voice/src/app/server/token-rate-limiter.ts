@@ -0,0 +1,188 @@
+// No "server-only": the relay in server.ts loads this outside Next.js
+import type { TokenPolicy } from "../config/token-policy";
+
+const WINDOW_MS = 60_000;
+/**
+ * A connected session renews its lease every minute (the page through
+ * `renewSessionToken`, the relay every `LEASE_RENEW_MS`), so a lease that
+ * has not been seen for this long belongs to a closed tab
+ */
+const LEASE_IDLE_MS = 2 * 60_000;
+export const LEASE_RENEW_MS = LEASE_IDLE_MS / 2;
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; message: string; retryAfterMs?: number };
+
+type CallerUsage = {
+  /** When each of the caller's sessions (leases) started */
+  sessionStarts: number[];
+  mints: number[];
+  /** Tool, classifier and MCP calls */
+  requests: number[];
+  /** Open sessions by lease id, with the time they were last seen */
+  leases: Map<string, number>;
+};
+
+function withinWindow(times: number[], now: number) {
+  return times.filter((time) => now - time < WINDOW_MS);
+}
+
+function retryIn(oldest: number, now: number) {
+  return Math.max(0, oldest + WINDOW_MS - now);
+}
+
+function seconds(ms: number) {
+  return `${Math.ceil(ms / 1000)}s`;
+}
+
+/**
+ * In-memory limits per caller. A lease is one voice session on the client:
+ * its first key counts as a new session, later keys (reconnects) only
+ * count towards the per-minute mint limit. Other calls on the server's API
+ * keys count towards the request limit.
+ *
+ * A caller without a cookie is handed a new identity, so the per-caller
+ * limits only hold for clients that keep their cookie. New sessions and
+ * requests are also capped across all callers, which bounds what a client
+ * that drops its cookie can spend. Limits reset when the server restarts and
+ * are not shared between server instances.
+ */
+export function createTokenRateLimiter({
+  sessionsPerMinute,
+  concurrentSessions,
+  tokensPerMinute,
+  requestsPerMinute,
+  globalSessionsPerMinute,
+  globalRequestsPerMinute,
+}: Pick<
+  TokenPolicy,
+  | "sessionsPerMinute"
+  | "concurrentSessions"
+  | "tokensPerMinute"
+  | "requestsPerMinute"
+  | "globalSessionsPerMinute"
+  | "globalRequestsPerMinute"
+>) {
+  const callers = new Map<string, CallerUsage>();
+  /** Sessions started and requests made by all callers together */
+  const everyone = { sessionStarts: [] as number[], requests: [] as number[] };
+
+  function usageFor(callerId: string, now: number) {
+    everyone.sessionStarts = withinWindow(everyone.sessionStarts, now);
+    everyone.requests = withinWindow(everyone.requests, now);
+    // Callers with nothing left to count, e.g. ones that dropped their cookie
+    for (const [id, usage] of callers) {
+      if (
+        usage.leases.size === 0 &&
+        usage.sessionStarts.every((time) => now - time >= WINDOW_MS) &&
+        usage.mints.every((time) => now - time >= WINDOW_MS) &&
+        usage.requests.every((time) => now - time >= WINDOW_MS)
+      ) {
+        callers.delete(id);
+      }
+    }
+
+    let usage = callers.get(callerId);
+    if (!usage) {
+      usage = { sessionStarts: [], mints: [], requests: [], leases: new Map() };
+      callers.set(callerId, usage);
+    }
+    usage.sessionStarts = withinWindow(usage.sessionStarts, now);
+    usage.mints = withinWindow(usage.mints, now);
+    usage.requests = withinWindow(usage.requests, now);
+    for (const [leaseId, lastSeen] of usage.leases) {
+      if (now - lastSeen > LEASE_IDLE_MS) usage.leases.delete(leaseId);
+    }
+    return usage;
+  }
+
+  return {
+    /** Checks the limits and, if the key may be minted, counts it */
+    acquire(callerId: string, leaseId: string): RateLimitDecision {
+      const now = Date.now();
+      const usage = usageFor(callerId, now);
+      const newSession = !usage.leases.has(leaseId);
+
+      if (newSession && usage.leases.size >= concurrentSessions) {
+        return {
+          allowed: false,
+          message: `You already have ${usage.leases.size} active voice sessions. Disconnect one and try again.`,
+        };
+      }
+      if (newSession && usage.sessionStarts.length >= sessionsPerMinute) {
+        const retryAfterMs = retryIn(usage.sessionStarts[0], now);
+        return {
+          allowed: false,
+          message: `Too many voice sessions started. Try again in ${seconds(
+            retryAfterMs
+          )}.`,
+          retryAfterMs,
+        };
+      }
+      if (
+        newSession &&
+        everyone.sessionStarts.length >= globalSessionsPerMinute
+      ) {
+        const retryAfterMs = retryIn(everyone.sessionStarts[0], now);
+        return {
+          allowed: false,
+          message: `The demo is busy. Try again in ${seconds(retryAfterMs)}.`,
+          retryAfterMs,
+        };
+      }
+      if (usage.mints.length >= tokensPerMinute) {
+        const retryAfterMs = retryIn(usage.mints[0], now);
+        return {
+          allowed: false,
+          message: `Too many session keys requested. Try again in ${seconds(
+            retryAfterMs
+          )}.`,
+          retryAfterMs,
+        };
+      }
+
+      if (newSession) {
+        usage.sessionStarts.push(now);
+        everyone.sessionStarts.push(now);
+      }
+      usage.mints.push(now);
+      usage.leases.set(leaseId, now);
+      return { allowed: true };
+    },
+    /** Checks and counts a call that does not mint a key */
+    request(callerId: string): RateLimitDecision {
+      const now = Date.now();
+      const usage = usageFor(callerId, now);
+      if (usage.requests.length >= requestsPerMinute) {
+        const retryAfterMs = retryIn(usage.requests[0], now);
+        return {
+          allowed: false,
+          message: `Too many requests. Try again in ${seconds(retryAfterMs)}.`,
+          retryAfterMs,
+        };
+      }
+      if (everyone.requests.length >= globalRequestsPerMinute) {
+        const retryAfterMs = retryIn(everyone.requests[0], now);
+        return {
+          allowed: false,
+          message: `The demo is busy. Try again in ${seconds(retryAfterMs)}.`,
+          retryAfterMs,
+        };
+      }
+      usage.requests.push(now);
+      everyone.requests.push(now);
+      return { allowed: true };
+    },
+    /** Keeps an open lease from being taken for a closed tab */
+    renew(callerId: string, leaseId: string) {
+      const leases = callers.get(callerId)?.leases;
+      if (leases?.has(leaseId)) {
+        leases.set(leaseId, Date.now());
+      }
+    },
+    release(callerId: string, leaseId: string) {
+      callers.get(callerId)?.leases.delete(leaseId);
+    },
+  };
+}
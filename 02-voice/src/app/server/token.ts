@@ -1,15 +1,191 @@
 "use server";
 
 import OpenAI from "openai";
+import z from "zod";
+import { realtimeApiBaseUrl } from "../config/realtime-endpoint";
+import {
+  sessionConfigSchema,
+  supportedTurnDetection,
+  type SessionConfig,
+} from "../config/session";
+import {
+  callerGuard,
+  UNAUTHENTICATED,
+  type CallerRefusal,
+} from "./caller-guard";
+import { recordTokenAudit } from "./token-audit";
+
+export type SessionToken = {
+  value: string;
+  /** Milliseconds since the epoch */
+  expiresAt: number;
+};
+
+export type SessionTokenError =
+  | CallerRefusal
+  | { code: "invalid_request"; message: string };
+
+/**
+ * Refusals are returned rather than thrown, because Next.js replaces the
+ * message of errors thrown from server actions in production.
+ */
+export type SessionTokenResult =
+  | { ok: true; token: SessionToken }
+  | { ok: false; error: SessionTokenError };
+
+const leaseIdSchema = z.string().uuid();
+
+/**
+ * Mints an ephemeral key for one voice session. `leaseId` identifies that
+ * session across reconnects, so their keys are not counted as new sessions;
+ * keep it with `renewSessionToken` while connected and release it with
+ * `releaseSessionToken` when the session ends.
+ */
+export async function getSessionToken(
+  config: SessionConfig,
+  leaseId: string
+): Promise<SessionTokenResult> {
+  // Checked before a lease is taken, so a bad request cannot hold one
+  const parsedConfig = sessionConfigSchema.safeParse(config);
+  if (!parsedConfig.success || !leaseIdSchema.safeParse(leaseId).success) {
+    return {
+      ok: false,
+      error: {
+        code: "invalid_request",
+        message: "The session settings are not valid.",
+      },
+    };
+  }
+  const { policy, identity, limiter } = callerGuard();
+  const caller = await identity.identify();
+  const audit = {
+    auth: identity.method,
+    callerId: caller?.id ?? null,
+    leaseId,
+    model: config.model,
+  };
+
+  if (!caller) {
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "unauthenticated",
+    });
+    return { ok: false, error: UNAUTHENTICATED };
+  }
+
+  const decision = limiter.acquire(caller.id, leaseId);
+  if (!decision.allowed) {
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "rate_limited",
+      reason: decision.message,
+    });
+    return {
+      ok: false,
+      error: {
+        code: "rate_limited",
+        message: decision.message,
+        retryAfterMs: decision.retryAfterMs,
+      },
+    };
+  }
+
+  try {
+    const token = await mintSessionToken(parsedConfig.data);
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "issued",
+      expiresAt: new Date(token.expiresAt).toISOString(),
+    });
+    return { ok: true, token };
+  } catch (error) {
+    // No key was issued, so the lease must not count as a session
+    limiter.release(caller.id, leaseId);
+    await recordTokenAudit(policy.auditLogPath, {
+      ...audit,
+      outcome: "failed",
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Makes sure the browser has a caller cookie before it opens the relay,
+ * which checks the cookie but cannot issue one
+ */
+export async function checkRelayCaller(): Promise<
+  { ok: true } | { ok: false; error: SessionTokenError }
+> {
+  const caller = await callerGuard().identity.identify();
+  return caller ? { ok: true } : { ok: false, error: UNAUTHENTICATED };
+}
+
+/** Keeps the lease of a connected session, without minting a key */
+export async function renewSessionToken(leaseId: string): Promise<void> {
+  if (!leaseIdSchema.safeParse(leaseId).success) {
+    return;
+  }
+  const { identity, limiter } = callerGuard();
+  const caller = await identity.identify();
+  if (caller) {
+    limiter.renew(caller.id, leaseId);
+  }
+}
+
+/** Ends the lease so it no longer counts towards the concurrent limit */
+export async function releaseSessionToken(leaseId: string): Promise<void> {
+  if (!leaseIdSchema.safeParse(leaseId).success) {
+    return;
+  }
+  const { identity, limiter } = callerGuard();
+  const caller = await identity.identify();
+  if (caller) {
+    limiter.release(caller.id, leaseId);
+  }
+}
+
+async function mintSessionToken(config: SessionConfig): Promise<SessionToken> {
+  const {
+    model,
+    voice,
+    instructions,
+    modalities,
+    inputAudioTranscription,
+    inputAudioNoiseReduction,
+    turnDetection: requestedTurnDetection,
+    toolChoice,
+  } = config;
+  const turnDetection = supportedTurnDetection(requestedTurnDetection);
 
-export async function getSessionToken() {
   const openai = new OpenAI({
     apiKey: process.env.OPENAI_API_KEY,
+    baseURL: realtimeApiBaseUrl,
   });
 
   const session = await openai.beta.realtime.sessions.create({
-    model: "gpt-4o-realtime-preview",
+    model,
+    voice,
+    instructions,
+    modalities,
+    input_audio_transcription: inputAudioTranscription,
+    input_audio_noise_reduction: inputAudioNoiseReduction
+      ? { type: inputAudioNoiseReduction }
+      : undefined,
+    turn_detection: {
+      type: turnDetection.type,
+      eagerness: turnDetection.eagerness,
+      threshold: turnDetection.threshold,
+      prefix_padding_ms: turnDetection.prefixPaddingMs,
+      silence_duration_ms: turnDetection.silenceDurationMs,
+      create_response: turnDetection.createResponse,
+      interrupt_response: turnDetection.interruptResponse,
+    },
+    tool_choice: toolChoice,
   });
 
-  return session.client_secret.value;
+  return {
+    value: session.client_secret.value,
+    expiresAt: session.client_secret.expires_at * 1000,
+  };
 }
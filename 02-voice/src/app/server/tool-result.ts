@@ -0,0 +1,39 @@
+/**
+ * Shape returned by the server-side voice tools. Failures are returned rather
+ * than thrown so the model can explain what went wrong to the user.
+ */
+export type ToolError = {
+  error: string;
+  instructions?: string;
+  suggestion?: string;
+  details?: string;
+};
+
+export type ToolSuccess<T> = {
+  success: true;
+  data: T;
+  summary: string;
+};
+
+export type ToolResult<T> = ToolSuccess<T> | ToolError;
+
+export const TOOL_ERRORS = {
+  WEATHER_API_KEY_MISSING:
+    "Weather API key not configured. Please add OPENWEATHER_API_KEY to your .env file.",
+  WEATHER_API_KEY_INSTRUCTIONS:
+    "Get a free API key from https://openweathermap.org/api",
+  WEATHER_API_INVALID: "The weather API key was rejected.",
+  WEATHER_API_INVALID_INSTRUCTIONS:
+    "Check that OPENWEATHER_API_KEY is correct and activated.",
+  AIR_QUALITY_API_KEY_MISSING:
+    "Air Quality API key not configured. Please add AQICN_API_KEY to your .env file.",
+  AIR_QUALITY_API_KEY_INSTRUCTIONS:
+    "Get a free API key from https://aqicn.org/api/",
+  LOCATION_NOT_FOUND:
+    "Location not found. Please check the spelling and try again.",
+  LOCATION_SUGGESTION:
+    'Try using a more specific location name, like "New York, NY" or "London, UK"',
+  INVALID_LOCATION: "A location name is required.",
+  TIMEOUT: "The service did not respond in time. Please try again.",
+  FETCH_ERROR: "Unable to fetch data at this time.",
+} as const;
@@ -0,0 +1,75 @@
+"use server";
+
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import z from "zod";
+import { guardrailConfig, guardrailConfigSchema } from "../config/guardrails";
+import { checkCallerRequest } from "./caller-guard";
+
+const CLASSIFIER_MODEL = "gpt-4o-mini";
+
+/** Longer replies are judged on their beginning */
+const MAX_TEXT_LENGTH = 4000;
+
+const topicVerdictSchema = z.object({
+  onTopic: z.boolean(),
+  reason: z.string(),
+});
+
+export type TopicVerdict = z.infer<typeof topicVerdictSchema>;
+
+/** Read on the server, so callers cannot choose what the model is told */
+function allowedTopics() {
+  const { topic } = guardrailConfigSchema.parse(guardrailConfig);
+  return topic.enabled ? topic.allowedTopics : null;
+}
+
+/**
+ * Asks a small model whether an assistant reply stays within the allowed
+ * topics of `guardrails.json`. Fails open so a classifier outage never
+ * silences the assistant.
+ */
+export async function classifyTopic(text: string): Promise<TopicVerdict> {
+  try {
+    const topics = allowedTopics();
+    if (!topics) {
+      return { onTopic: true, reason: "The topic guardrail is off" };
+    }
+    const input = z.string().trim().min(1).safeParse(text);
+    if (!input.success) {
+      return { onTopic: true, reason: "There is no reply to classify" };
+    }
+    const check = await checkCallerRequest();
+    if (!check.ok) {
+      return { onTopic: true, reason: check.error.message };
+    }
+
+    const openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+
+    const completion = await openai.chat.completions.parse({
+      model: CLASSIFIER_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: `You check replies from a voice assistant. The assistant may only talk about: ${topics.join(
+            "; "
+          )}. Greetings, clarifying questions and politely declining are always on topic. Decide whether the reply is on topic and give a short reason.`,
+        },
+        { role: "user", content: input.data.slice(0, MAX_TEXT_LENGTH) },
+      ],
+      response_format: zodResponseFormat(topicVerdictSchema, "topic_verdict"),
+    });
+
+    return (
+      completion.choices[0].message.parsed ?? {
+        onTopic: true,
+        reason: "The classifier returned no verdict",
+      }
+    );
+  } catch (error) {
+    console.error("Topic classifier failed:", error);
+    return { onTopic: true, reason: "The classifier is unavailable" };
+  }
+}
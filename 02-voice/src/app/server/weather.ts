@@ -0,0 +1,118 @@
+"use server";
+
+import z from "zod";
+import { checkCallerRequest } from "./caller-guard";
+import { TOOL_ERRORS, type ToolResult } from "./tool-result";
+
+const OPENWEATHER_URL = "https://api.openweathermap.org/data/2.5/weather";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type WeatherData = {
+  location: string;
+  temperature: string;
+  feelsLike: string;
+  description: string;
+  humidity: string;
+  windSpeed: string;
+};
+
+const openWeatherResponseSchema = z.object({
+  name: z.string(),
+  sys: z.object({ country: z.string().optional() }),
+  main: z.object({
+    temp: z.number(),
+    feels_like: z.number(),
+    humidity: z.number(),
+  }),
+  weather: z.array(z.object({ description: z.string() })).min(1),
+  wind: z.object({ speed: z.number() }),
+});
+
+function formatTemperature(celsius: number) {
+  return `${Math.round(celsius)}°C (${Math.round((celsius * 9) / 5 + 32)}°F)`;
+}
+
+/**
+ * Looks up the current weather on OpenWeatherMap. Runs on the server so
+ * OPENWEATHER_API_KEY never reaches the browser.
+ */
+export async function getWeather(
+  location: string
+): Promise<ToolResult<WeatherData>> {
+  const parsed = z.string().trim().min(1).safeParse(location);
+  if (!parsed.success) {
+    return { error: TOOL_ERRORS.INVALID_LOCATION };
+  }
+
+  const check = await checkCallerRequest();
+  if (!check.ok) {
+    return { error: check.error.message };
+  }
+
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (!apiKey) {
+    return {
+      error: TOOL_ERRORS.WEATHER_API_KEY_MISSING,
+      instructions: TOOL_ERRORS.WEATHER_API_KEY_INSTRUCTIONS,
+    };
+  }
+
+  const url = new URL(OPENWEATHER_URL);
+  url.searchParams.set("q", parsed.data);
+  url.searchParams.set("appid", apiKey);
+  url.searchParams.set("units", "metric");
+
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      cache: "no-store",
+    });
+
+    if (response.status === 401) {
+      return {
+        error: TOOL_ERRORS.WEATHER_API_INVALID,
+        instructions: TOOL_ERRORS.WEATHER_API_INVALID_INSTRUCTIONS,
+      };
+    }
+    if (response.status === 404) {
+      return {
+        error: TOOL_ERRORS.LOCATION_NOT_FOUND.replace(
+          "Location",
+          `Location "${parsed.data}"`
+        ),
+        suggestion: TOOL_ERRORS.LOCATION_SUGGESTION,
+      };
+    }
+    if (!response.ok) {
+      return {
+        error: TOOL_ERRORS.FETCH_ERROR,
+        details: `OpenWeatherMap responded with ${response.status}`,
+      };
+    }
+
+    const body = openWeatherResponseSchema.parse(await response.json());
+    const weather: WeatherData = {
+      location: [body.name, body.sys.country].filter(Boolean).join(", "),
+      temperature: formatTemperature(body.main.temp),
+      feelsLike: formatTemperature(body.main.feels_like),
+      description: body.weather[0].description,
+      humidity: `${body.main.humidity}%`,
+      windSpeed: `${body.wind.speed} m/s`,
+    };
+
+    return {
+      success: true,
+      data: weather,
+      summary: `Current weather in ${weather.location}: ${weather.temperature}, ${weather.description}. Feels like ${weather.feelsLike}. Humidity: ${weather.humidity}, Wind: ${weather.windSpeed}.`,
+    };
+  } catch (error) {
+    console.error("Weather API error:", error);
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      return { error: TOOL_ERRORS.TIMEOUT };
+    }
+    return {
+      error: TOOL_ERRORS.FETCH_ERROR,
+      details: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
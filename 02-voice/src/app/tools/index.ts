@@ -0,0 +1,50 @@
+import { tool } from "@openai/agents/realtime";
+import z from "zod";
+import { getAirQuality } from "../server/air-quality";
+import { TOOL_ERRORS, type ToolError } from "../server/tool-result";
+import { getWeather } from "../server/weather";
+
+/**
+ * Voice tools are declared in the browser, where the realtime session runs,
+ * but their `execute` calls a server action so API keys stay on the server.
+ */
+async function callServerAction<T>(action: () => Promise<T>) {
+  try {
+    return await action();
+  } catch (error) {
+    console.error("Tool server action failed", error);
+    return {
+      error: TOOL_ERRORS.FETCH_ERROR,
+      details: error instanceof Error ? error.message : String(error),
+    } satisfies ToolError;
+  }
+}
+
+export const getWeatherTool = tool({
+  name: "getWeather",
+  description: "Get the current weather in a given location",
+  parameters: z.object({
+    location: z
+      .string()
+      .describe('The city or location, e.g. "New York" or "Bangkok, TH"'),
+  }),
+  execute: ({ location }) => callServerAction(() => getWeather(location)),
+});
+
+export const getAirQualityTool = tool({
+  name: "getAirQuality",
+  description:
+    "Get current air quality (AQI) and health advice for a given location",
+  parameters: z.object({
+    location: z
+      .string()
+      .describe('The city or location, e.g. "Beijing" or "Chiang Mai"'),
+  }),
+  execute: ({ location }) => callServerAction(() => getAirQuality(location)),
+});
+
+/** Tools that agents in `config/agents.json` can reference by name */
+export const voiceTools = {
+  [getWeatherTool.name]: getWeatherTool,
+  [getAirQualityTool.name]: getAirQualityTool,
+};
@@ -0,0 +1,100 @@
+import { tool } from "@openai/agents/realtime";
+import type {
+  BridgedTool,
+  McpServerStatus,
+  McpToolContent,
+  McpToolListing,
+} from "../server/mcp-bridge";
+import { TOOL_ERRORS, type ToolError } from "../server/tool-result";
+import type { RosterTool } from "../utils/agent-roster";
+
+const MCP_TOOLS_ROUTE = "/api/mcp/tools";
+
+/** Bridged tools grouped by the MCP server that provides them */
+export type McpToolSets = Record<string, RosterTool[]>;
+
+export type McpTools = {
+  servers: McpServerStatus[];
+  tools: BridgedTool[];
+  toolSets: McpToolSets;
+};
+
+/** Route errors come back as `{ error }` with a non-2xx status */
+async function readRouteResponse<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+/** The model only reads text, so other content is passed along as JSON */
+function contentText(content: McpToolContent) {
+  const texts = content.flatMap((part) =>
+    part.type === "text" && typeof part.text === "string" ? [part.text] : []
+  );
+  return texts.length === content.length
+    ? texts.join("\n")
+    : JSON.stringify(content);
+}
+
+async function callMcpTool(name: string, input: unknown) {
+  try {
+    const response = await fetch(MCP_TOOLS_ROUTE, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, arguments: input ?? {} }),
+    });
+    const { content } = await readRouteResponse<{ content: McpToolContent }>(
+      response
+    );
+    return contentText(content);
+  } catch (error) {
+    console.error(`MCP tool "${name}" failed`, error);
+    return {
+      error: TOOL_ERRORS.FETCH_ERROR,
+      details: error instanceof Error ? error.message : String(error),
+    } satisfies ToolError;
+  }
+}
+
+/**
+ * MCP input schemas are not always strict-mode compatible, so the realtime
+ * tool takes them as they are and lets the MCP server validate arguments.
+ */
+function createMcpTool(bridged: BridgedTool): RosterTool {
+  const { properties, required } = bridged.parameters as {
+    properties?: Record<string, Record<string, unknown>>;
+    required?: string[];
+  };
+  return tool({
+    name: bridged.name,
+    description: bridged.description,
+    parameters: {
+      type: "object",
+      properties: properties ?? {},
+      required: required ?? [],
+      additionalProperties: true,
+    },
+    strict: false,
+    needsApproval: bridged.needsApproval,
+    execute: (input) => callMcpTool(bridged.name, input),
+  });
+}
+
+/**
+ * Fetches the allowlisted MCP tools from the server and declares them as
+ * realtime tools whose `execute` goes through the MCP route handler.
+ */
+export async function loadMcpTools(): Promise<McpTools> {
+  const listing = await readRouteResponse<McpToolListing>(
+    await fetch(MCP_TOOLS_ROUTE)
+  );
+  const toolSets: McpToolSets = Object.fromEntries(
+    listing.servers.map((server) => [server.name, []])
+  );
+  for (const bridged of listing.tools) {
+    toolSets[bridged.server]?.push(createMcpTool(bridged));
+  }
+  return { ...listing, toolSets };
+}
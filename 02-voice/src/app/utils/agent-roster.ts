@@ -0,0 +1,186 @@
+import {
+  RealtimeAgent,
+  type RealtimeAgentConfiguration,
+} from "@openai/agents/realtime";
+import {
+  agentRosterSchema,
+  type AgentDefinition,
+  type AgentRosterConfig,
+} from "../config/agents";
+import {
+  localeInstructions,
+  localePersonas,
+  type Locale,
+} from "../config/locales";
+import type { McpToolSets } from "../tools/mcp";
+
+export type RosterTool = NonNullable<
+  RealtimeAgentConfiguration["tools"]
+>[number];
+
+export type AgentRoster =
+  | { ok: true; root: RealtimeAgent; agents: RealtimeAgent[] }
+  | { ok: false; issues: string[] };
+
+/**
+ * Finds handoff cycles between non-root agents. Handing back to the root agent
+ * is how specialists return control, so those edges are allowed.
+ */
+function findCycles(config: AgentRosterConfig): string[][] {
+  const edges = new Map(
+    config.agents.map((agent) => [
+      agent.name,
+      agent.handoffs.filter((target) => target !== config.rootAgent),
+    ])
+  );
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+
+  function visit(name: string, path: string[]) {
+    const start = path.indexOf(name);
+    if (start !== -1) {
+      cycles.push([...path.slice(start), name]);
+      return;
+    }
+    if (done.has(name)) return;
+    for (const target of edges.get(name) ?? []) {
+      visit(target, [...path, name]);
+    }
+    done.add(name);
+  }
+
+  for (const name of edges.keys()) {
+    visit(name, []);
+  }
+  return cycles;
+}
+
+function validateRoster(
+  config: AgentRosterConfig,
+  tools: Record<string, RosterTool>,
+  mcpTools: McpToolSets
+): string[] {
+  const issues: string[] = [];
+  const names = new Set<string>();
+
+  for (const agent of config.agents) {
+    if (names.has(agent.name)) {
+      issues.push(`Agent "${agent.name}" is defined more than once`);
+    }
+    names.add(agent.name);
+  }
+
+  if (!names.has(config.rootAgent)) {
+    issues.push(`Root agent "${config.rootAgent}" is not defined`);
+  }
+
+  for (const agent of config.agents) {
+    for (const toolName of agent.tools) {
+      if (!tools[toolName]) {
+        issues.push(
+          `Agent "${agent.name}" uses unknown tool "${toolName}" (available: ${
+            Object.keys(tools).join(", ") || "none"
+          })`
+        );
+      }
+    }
+    for (const server of agent.mcpServers) {
+      if (!mcpTools[server]) {
+        issues.push(
+          `Agent "${
+            agent.name
+          }" uses unknown MCP server "${server}" (configured: ${
+            Object.keys(mcpTools).join(", ") || "none"
+          })`
+        );
+      }
+    }
+    for (const target of agent.handoffs) {
+      if (!names.has(target)) {
+        issues.push(
+          `Agent "${agent.name}" hands off to unknown agent "${target}"`
+        );
+      } else if (target === agent.name) {
+        issues.push(`Agent "${agent.name}" hands off to itself`);
+      }
+    }
+  }
+
+  if (issues.length === 0) {
+    for (const cycle of findCycles(config)) {
+      issues.push(`Handoff cycle: ${cycle.join(" → ")}`);
+    }
+  }
+
+  return issues;
+}
+
+function createAgent(
+  definition: AgentDefinition,
+  tools: Record<string, RosterTool>,
+  locale: Locale,
+  mcpTools: McpToolSets
+) {
+  const instructions =
+    definition.localeInstructions?.[locale] ?? definition.instructions;
+  return new RealtimeAgent({
+    name: definition.name,
+    instructions: `${instructions}\n\n${localeInstructions(locale)}`,
+    voice: definition.voice ?? localePersonas[locale].voice,
+    handoffDescription: definition.handoffDescription,
+    tools: [
+      ...definition.tools.map((name) => tools[name]),
+      ...definition.mcpServers.flatMap((server) => mcpTools[server]),
+    ],
+  });
+}
+
+/**
+ * Validates the roster config and builds the `RealtimeAgent` graph from it,
+ * with the instructions and default voice of the given locale. `mcpTools`
+ * needs an entry for every configured MCP server, empty until its tools have
+ * been listed. Problems are
+ * returned as readable issues rather than thrown so the page can show them
+ * instead of failing to render.
+ */
+export function buildAgentRoster(
+  rawConfig: unknown,
+  tools: Record<string, RosterTool>,
+  locale: Locale,
+  mcpTools: McpToolSets
+): AgentRoster {
+  const parsed = agentRosterSchema.safeParse(rawConfig);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "roster"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const config = parsed.data;
+  const issues = validateRoster(config, tools, mcpTools);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  const agents = new Map(
+    config.agents.map((definition) => [
+      definition.name,
+      createAgent(definition, tools, locale, mcpTools),
+    ])
+  );
+  // Handoffs are wired after every agent exists so agents can hand back
+  for (const definition of config.agents) {
+    agents
+      .get(definition.name)!
+      .handoffs.push(...definition.handoffs.map((name) => agents.get(name)!));
+  }
+
+  return {
+    ok: true,
+    root: agents.get(config.rootAgent)!,
+    agents: Array.from(agents.values()),
+  };
+}
@@ -0,0 +1,43 @@
+import {
+  defaultSessionConfig,
+  sessionConfigSchema,
+  type SessionConfig,
+} from "../config/session";
+
+const STORAGE_KEY = "voice-agent-demo:audio-settings";
+
+/** The part of the session config users can change from the settings panel */
+export const audioSettingsSchema = sessionConfigSchema.pick({
+  turnDetection: true,
+  inputAudioNoiseReduction: true,
+  inputAudioTranscription: true,
+});
+
+export type AudioSettings = Pick<
+  SessionConfig,
+  "turnDetection" | "inputAudioNoiseReduction" | "inputAudioTranscription"
+>;
+
+export const defaultAudioSettings: AudioSettings =
+  audioSettingsSchema.parse(defaultSessionConfig);
+
+/**
+ * Reads the settings saved in this browser. Anything missing or no longer
+ * valid falls back to the defaults from `config/session.ts`.
+ */
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) {
+      return defaultAudioSettings;
+    }
+    const parsed = audioSettingsSchema.safeParse(JSON.parse(saved));
+    return parsed.success ? parsed.data : defaultAudioSettings;
+  } catch {
+    return defaultAudioSettings;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,229 @@
+import type {
+  RealtimeItem,
+  RealtimeOutputGuardrail,
+} from "@openai/agents/realtime";
+import {
+  guardrailConfigSchema,
+  type GuardrailConfig,
+} from "../config/guardrails";
+import { classifyTopic } from "../server/topic-classifier";
+
+/** A span of the checked transcript that tripped a guardrail */
+export type GuardrailMatch = {
+  start: number;
+  end: number;
+  text: string;
+  reason: string;
+};
+
+export type GuardrailOutputInfo = {
+  matches: GuardrailMatch[];
+};
+
+export type OutputGuardrails =
+  | {
+      ok: true;
+      /** Builds the guardrails for one session, so their state starts fresh */
+      createGuardrails: () => RealtimeOutputGuardrail[];
+      debounceTextLength: number;
+    }
+  | { ok: false; issues: string[] };
+
+const PII_PATTERNS = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  phone: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{6,}\d/g,
+};
+
+/** Phone candidates need enough digits to rule out years and temperatures */
+const MIN_PHONE_DIGITS = 9;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function findMatches(text: string, pattern: RegExp, reason: string) {
+  const matches: GuardrailMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    matches.push({
+      start,
+      end: start + match[0].length,
+      text: match[0],
+      reason,
+    });
+  }
+  return matches;
+}
+
+function result(matches: GuardrailMatch[]) {
+  const outputInfo: GuardrailOutputInfo = { matches };
+  return { tripwireTriggered: matches.length > 0, outputInfo };
+}
+
+function denyListGuardrail({
+  terms,
+  patterns,
+}: GuardrailConfig["denyList"]): RealtimeOutputGuardrail {
+  const rules = [
+    ...terms.map((term) => ({
+      pattern: new RegExp(`\\b${escapeRegExp(term)}\\b`, "gi"),
+      reason: `Mentions "${term}"`,
+    })),
+    ...patterns.map((pattern) => ({
+      pattern: new RegExp(pattern, "gi"),
+      reason: `Matches /${pattern}/`,
+    })),
+  ];
+
+  return {
+    name: "Deny list",
+    policyHint: "The reply used a word or phrase the assistant must not say",
+    execute: async ({ agentOutput }) =>
+      result(
+        rules.flatMap(({ pattern, reason }) =>
+          findMatches(agentOutput, pattern, reason)
+        )
+      ),
+  };
+}
+
+function piiGuardrail({
+  detect,
+}: GuardrailConfig["pii"]): RealtimeOutputGuardrail {
+  return {
+    name: "PII detector",
+    policyHint:
+      "The reply contained personal contact details such as an email address or phone number",
+    execute: async ({ agentOutput }) => {
+      const matches: GuardrailMatch[] = [];
+      if (detect.includes("email")) {
+        matches.push(
+          ...findMatches(agentOutput, PII_PATTERNS.email, "Email address")
+        );
+      }
+      if (detect.includes("phone")) {
+        matches.push(
+          ...findMatches(
+            agentOutput,
+            PII_PATTERNS.phone,
+            "Phone number"
+          ).filter(
+            (match) => match.text.replace(/\D/g, "").length >= MIN_PHONE_DIGITS
+          )
+        );
+      }
+      return result(matches);
+    },
+  };
+}
+
+/**
+ * The item id of the reply being checked. Guardrails only get the text, but
+ * the session keeps its live history in the run context.
+ */
+function replyItemId(runContext: { context: unknown }) {
+  const data = runContext.context;
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    !("history" in data) ||
+    !Array.isArray(data.history)
+  ) {
+    return undefined;
+  }
+  const history: RealtimeItem[] = data.history;
+  return history.findLast(
+    (item) => item.type === "message" && item.role === "assistant"
+  )?.itemId;
+}
+
+/**
+ * Each classification is a paid model call, so a reply is classified once,
+ * at the first check where its transcript has reached `minTextLength`
+ */
+function topicGuardrail({
+  allowedTopics,
+  minTextLength,
+}: GuardrailConfig["topic"]): RealtimeOutputGuardrail {
+  const classified = new Set<string>();
+  return {
+    name: "Stay on topic",
+    policyHint: `The reply strayed from the allowed topics: ${allowedTopics.join(
+      ", "
+    )}`,
+    execute: async ({ agentOutput, context }) => {
+      const itemId = replyItemId(context);
+      if (
+        (itemId !== undefined && classified.has(itemId)) ||
+        agentOutput.trim().length < minTextLength
+      ) {
+        return result([]);
+      }
+      // Without an item id the reply cannot be told apart, so it is checked
+      if (itemId !== undefined) classified.add(itemId);
+      const verdict = await classifyTopic(agentOutput);
+      return result(
+        verdict.onTopic
+          ? []
+          : [
+              {
+                start: 0,
+                end: agentOutput.length,
+                text: agentOutput,
+                reason: verdict.reason,
+              },
+            ]
+      );
+    },
+  };
+}
+
+/**
+ * Validates the guardrail config and turns each enabled section into a
+ * realtime output guardrail. Every match reports its character range in the
+ * transcript that was checked.
+ */
+export function buildOutputGuardrails(rawConfig: unknown): OutputGuardrails {
+  const parsed = guardrailConfigSchema.safeParse(rawConfig);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map(
+        (issue) =>
+          `guardrails.${issue.path.join(".") || "config"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const { denyList, pii, topic, debounceTextLength } = parsed.data;
+  function createGuardrails() {
+    const guardrails: RealtimeOutputGuardrail[] = [];
+    if (denyList.enabled) guardrails.push(denyListGuardrail(denyList));
+    if (pii.enabled) guardrails.push(piiGuardrail(pii));
+    if (topic.enabled) guardrails.push(topicGuardrail(topic));
+    return guardrails;
+  }
+
+  return { ok: true, createGuardrails, debounceTextLength };
+}
+
+/**
+ * Splits the checked text into plain and matched segments for display.
+ * Matches that overlap an earlier match are skipped.
+ */
+export function segmentByMatches(text: string, matches: GuardrailMatch[]) {
+  const segments: { text: string; match?: GuardrailMatch }[] = [];
+  let cursor = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (match.start < cursor) continue;
+    if (match.start > cursor) {
+      segments.push({ text: text.slice(cursor, match.start) });
+    }
+    segments.push({ text: text.slice(match.start, match.end), match });
+    cursor = match.end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+  return segments;
+}
@@ -0,0 +1,77 @@
+import type { RealtimeItem } from "@openai/agents/realtime";
+import {
+  handoffTarget,
+  isHandoffCall,
+  isSeedItem,
+  messageText,
+} from "./transcript";
+
+const MAX_SUMMARY_LINES = 30;
+const MAX_LINE_LENGTH = 200;
+
+function clip(text: string) {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > MAX_LINE_LENGTH
+    ? `${oneLine.slice(0, MAX_LINE_LENGTH)}…`
+    : oneLine;
+}
+
+function summaryLine(
+  item: RealtimeItem,
+  itemAgents: Record<string, string>
+): string | null {
+  // Earlier summaries; the turns they cover are part of the history passed in
+  if (isSeedItem(item)) return null;
+  const agentName = itemAgents[item.itemId] ?? "Assistant";
+  if (item.type === "message") {
+    const text = messageText(item);
+    if (!text) return null;
+    const speaker =
+      item.role === "user"
+        ? "User"
+        : item.role === "system"
+        ? "System"
+        : agentName;
+    return `${speaker}: ${clip(text)}`;
+  }
+  if (isHandoffCall(item)) {
+    return `(${agentName} handed off to ${handoffTarget(item)})`;
+  }
+  return `(${agentName} called ${item.name}(${clip(item.arguments)})${
+    item.output !== null ? ` → ${clip(item.output)}` : ""
+  })`;
+}
+
+export type HistorySummary = {
+  text: string;
+  /** Turns included in the summary */
+  turns: number;
+};
+
+/**
+ * Condenses the conversation so far into a system message for the next
+ * session, so it can carry on after a reconnect. Only the last
+ * `MAX_SUMMARY_LINES` turns are kept and each is shortened to one line.
+ * Returns `null` when there is nothing worth restoring.
+ */
+export function summarizeHistory(
+  history: RealtimeItem[],
+  itemAgents: Record<string, string>
+): HistorySummary | null {
+  const lines = history
+    .map((item) => summaryLine(item, itemAgents))
+    .filter((line): line is string => line !== null);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const kept = lines.slice(-MAX_SUMMARY_LINES);
+  const omitted = lines.length - kept.length;
+  const text = [
+    "The connection dropped and this is a new session. Continue the conversation below without greeting the user again or mentioning the reconnect unless they ask.",
+    "",
+    ...(omitted > 0 ? [`(${omitted} earlier turns omitted)`] : []),
+    ...kept,
+  ].join("\n");
+  return { text, turns: kept.length };
+}
@@ -0,0 +1,61 @@
+import type { RealtimeItem } from "@openai/agents/realtime";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "../config/locales";
+import { messageText } from "./transcript";
+
+const STORAGE_KEY = "voice-agent-demo:locale";
+
+/** Letters of each locale's script */
+const LOCALE_SCRIPTS: Record<Locale, RegExp> = {
+  en: /[a-z]/gi,
+  th: /[\u0E00-\u0E7F]/g,
+};
+
+export function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return LOCALES.find((locale) => locale === saved) ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error("Failed to save the locale", error);
+  }
+}
+
+/**
+ * The locale whose script most of the text is written in, or `null` if it
+ * has no letters from any of them. The Realtime API does not report the
+ * language it transcribed, so this works from the transcript text.
+ */
+export function detectLanguage(text: string): Locale | null {
+  let best: Locale | null = null;
+  let bestCount = 0;
+  for (const locale of LOCALES) {
+    const count = text.match(LOCALE_SCRIPTS[locale])?.length ?? 0;
+    if (count > bestCount) {
+      best = locale;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Detected language of every user turn that has text so far */
+export function userTurnLanguages(
+  history: RealtimeItem[]
+): Record<string, Locale> {
+  const languages: Record<string, Locale> = {};
+  for (const item of history) {
+    if (item.type !== "message" || item.role !== "user") continue;
+    const language = detectLanguage(messageText(item));
+    if (language) {
+      languages[item.itemId] = language;
+    }
+  }
+  return languages;
+}
@@ -0,0 +1,213 @@
+import {
+  OpenAIRealtimeWebRTC,
+  OpenAIRealtimeWebSocket,
+  type RealtimeSessionConfig,
+} from "@openai/agents/realtime";
+import {
+  REALTIME_RELAY_PATH,
+  type RealtimeTransportKind,
+} from "../config/realtime-endpoint";
+import type { RecordingTrack } from "./session-recorder";
+import { startWebSocketAudio, type WebSocketAudio } from "./websocket-audio";
+
+type TransportOptions = {
+  kind: RealtimeTransportKind;
+  model: string;
+  /** Where the `websocket` transport connects, e.g. the mock server */
+  websocketUrl?: string;
+  /**
+   * Every server event as sent. The SDK's parsed events drop fields its
+   * schemas do not list, such as the token details in `response.done` usage.
+   */
+  onServerEvent?: (event: ServerEvent) => void;
+  /**
+   * The microphone and agent audio of a WebRTC session, or the microphone
+   * of a WebSocket session. WebSocket sessions carry the agent audio as
+   * `response.audio.delta` server events instead.
+   */
+  onMediaStream?: (track: RecordingTrack, stream: MediaStream) => void;
+  /**
+   * Whether the agent's audio is playing in a WebSocket session, which has
+   * no `output_audio_buffer` events
+   */
+  onAgentSpeaking?: (speaking: boolean) => void;
+};
+
+export type ServerEvent = Record<string, unknown> & { type: string };
+
+/** A transport and the way to mute its microphone */
+export type RealtimeConnection = {
+  transport: OpenAIRealtimeWebRTC | OpenAIRealtimeWebSocket;
+  /**
+   * WebRTC mutes its microphone track. The SDK cannot mute a WebSocket
+   * session, so this stops sending its microphone audio instead.
+   */
+  mute: (muted: boolean) => void;
+};
+
+/** The WebSocket or data channel a transport receives server events on */
+type EventChannel = {
+  addEventListener(
+    type: "message",
+    listener: (message: { data: unknown }) => void
+  ): void;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseServerEvent(data: unknown): ServerEvent | null {
+  if (typeof data !== "string") {
+    return null;
+  }
+  try {
+    const event: unknown = JSON.parse(data);
+    return isRecord(event) && typeof event.type === "string"
+      ? { ...event, type: event.type }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Listens to the raw messages of the socket or data channel that a transport
+ * opens. Both are created right before the transport reports `connecting`,
+ * so no message is missed.
+ */
+function forwardServerEvents(
+  transport: OpenAIRealtimeWebRTC | OpenAIRealtimeWebSocket,
+  channel: () => EventChannel | undefined,
+  onServerEvent: (event: ServerEvent) => void
+) {
+  transport.on("connection_change", (status) => {
+    if (status !== "connecting") return;
+    channel()?.addEventListener("message", (message) => {
+      const event = parseServerEvent(message.data);
+      if (event) {
+        onServerEvent(event);
+      }
+    });
+  });
+}
+
+/** The relay runs on the same host as the page */
+function relayUrl(model: string) {
+  const url = new URL(REALTIME_RELAY_PATH, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.searchParams.set("model", model);
+  return url.toString();
+}
+
+/**
+ * `RealtimeSession` rebuilds the session config on every handoff and falls
+ * back to SDK defaults for anything it does not track itself, which would
+ * undo our turn detection, transcription and modality settings. This
+ * transport merges the current overrides into every `session.update`.
+ */
+export function createRealtimeTransport(
+  getSessionOverrides: () => Partial<RealtimeSessionConfig>,
+  {
+    kind,
+    model,
+    websocketUrl,
+    onServerEvent,
+    onMediaStream,
+    onAgentSpeaking,
+  }: TransportOptions
+): RealtimeConnection {
+  if (kind !== "webrtc") {
+    const url = kind === "relay" ? relayUrl(model) : websocketUrl;
+
+    /** Captures the mic and plays the agent, see `startWebSocketAudio` */
+    class ConfiguredWebSocket extends OpenAIRealtimeWebSocket {
+      private audio: WebSocketAudio | null = null;
+
+      // `RealtimeSession.connect` does not forward a URL to the transport
+      async connect(
+        options: Parameters<OpenAIRealtimeWebSocket["connect"]>[0]
+      ) {
+        this.audio = await startWebSocketAudio({
+          sendAudio: (audio) => this.sendAudio(audio),
+          onMicStream: (stream) => onMediaStream?.("mic", stream),
+          onSpeakingChange: onAgentSpeaking,
+        });
+        try {
+          await super.connect(url ? { ...options, url } : options);
+        } catch (error) {
+          this.close();
+          throw error;
+        }
+      }
+
+      muteMic(muted: boolean) {
+        this.audio?.mute(muted);
+      }
+
+      playAudio(pcm: ArrayBuffer) {
+        this.audio?.play(pcm);
+      }
+
+      interrupt() {
+        this.audio?.clearPlayback();
+        super.interrupt();
+      }
+
+      close() {
+        this.audio?.stop().catch(console.error);
+        this.audio = null;
+        super.close();
+      }
+
+      updateSessionConfig(config: Partial<RealtimeSessionConfig>) {
+        super.updateSessionConfig({ ...config, ...getSessionOverrides() });
+      }
+    }
+
+    // The relay ignores the browser's key and uses its own
+    const transport = new ConfiguredWebSocket({
+      useInsecureApiKey: kind === "relay",
+    });
+    transport.on("audio", (event) => transport.playAudio(event.data));
+    if (onServerEvent) {
+      forwardServerEvents(
+        transport,
+        () => transport.connectionState.websocket,
+        onServerEvent
+      );
+    }
+    return { transport, mute: (muted) => transport.muteMic(muted) };
+  }
+
+  class ConfiguredWebRTC extends OpenAIRealtimeWebRTC {
+    updateSessionConfig(config: Partial<RealtimeSessionConfig>) {
+      super.updateSessionConfig({ ...config, ...getSessionOverrides() });
+    }
+  }
+
+  const transport = new ConfiguredWebRTC({
+    // Runs after the microphone track is added, before the offer is sent
+    changePeerConnection(peerConnection) {
+      if (onMediaStream) {
+        for (const sender of peerConnection.getSenders()) {
+          if (sender.track) {
+            onMediaStream("mic", new MediaStream([sender.track]));
+          }
+        }
+        peerConnection.addEventListener("track", (event) =>
+          onMediaStream("agent", event.streams[0])
+        );
+      }
+      return peerConnection;
+    },
+  });
+  if (onServerEvent) {
+    forwardServerEvents(
+      transport,
+      () => transport.connectionState.dataChannel,
+      onServerEvent
+    );
+  }
+  return { transport, mute: (muted) => transport.mute(muted) };
+}
@@ -0,0 +1,162 @@
+import { messageCatalogs } from "../config/locales";
+import { segmentByMatches } from "./guardrails";
+import type { SessionRecord } from "./session-store";
+import {
+  handoffTarget,
+  isHandoffCall,
+  mergeTranscript,
+  messageText,
+} from "./transcript";
+
+function formatDuration(record: SessionRecord) {
+  if (!record.endedAt) return "in progress";
+  const seconds = Math.round((record.endedAt - record.startedAt) / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** `mm:ss` from the start of a recording */
+export function formatOffset(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`;
+}
+
+export function sessionTitle(record: SessionRecord) {
+  return new Date(record.startedAt).toLocaleString();
+}
+
+export function sessionToMarkdown(record: SessionRecord): string {
+  const lines = [
+    `# Voice session — ${sessionTitle(record)}`,
+    "",
+    `- Started: ${new Date(record.startedAt).toISOString()}`,
+    `- Ended: ${record.endedAt ? new Date(record.endedAt).toISOString() : "—"}`,
+    `- Duration: ${formatDuration(record)}`,
+    ...(record.locale
+      ? [`- Language: ${messageCatalogs[record.locale].languageName}`]
+      : []),
+    ...(record.recording
+      ? [
+          `- Recording: ${formatOffset(
+            record.recording.durationMs
+          )}, transcript times are offsets into it`,
+        ]
+      : []),
+    "",
+    "## Agents",
+    "",
+    ...record.agents.map((agent) => {
+      const details = [
+        agent.tools.length > 0 && `tools: ${agent.tools.join(", ")}`,
+        agent.handoffs.length > 0 && `handoffs: ${agent.handoffs.join(", ")}`,
+      ].filter(Boolean);
+      return `- **${agent.name}**${
+        details.length ? ` (${details.join("; ")})` : ""
+      }`;
+    }),
+    "",
+    "## Transcript",
+    "",
+  ];
+
+  // Lines up transcript entries with the recorded audio
+  const stamp = (timestamp: number | undefined) =>
+    record.recording && timestamp !== undefined
+      ? `[${formatOffset(timestamp - record.recording.startedAt)}] `
+      : "";
+
+  for (const entry of mergeTranscript(record.history, record.notes)) {
+    if (entry.kind === "note") {
+      const { note } = entry;
+      const at = stamp(note.timestamp);
+      if (note.type === "guardrail_tripped") {
+        const highlighted = segmentByMatches(note.text, note.matches)
+          .map((segment) =>
+            segment.match ? `**${segment.text}**` : segment.text
+          )
+          .join("");
+        lines.push(
+          `> ${at}🛡️ Guardrail "${note.guardrailName}" tripped (${note.agentName}): ${highlighted}`,
+          ...note.matches.map(
+            (match) =>
+              `> - ${match.reason}, characters ${match.start}–${match.end}`
+          ),
+          ""
+        );
+        continue;
+      }
+      if (note.type === "reconnected") {
+        lines.push(
+          `> ${at}🔌 Connection lost. Reconnected after ${note.attempts} attempt(s) and restored ${note.restoredTurns} turns for ${note.agentName}`,
+          ""
+        );
+        continue;
+      }
+      lines.push(
+        `> ${at}${note.toolName} (${note.agentName}): ${note.decision.replace(
+          "_",
+          " "
+        )}${note.reason ? ` — ${note.reason}` : ""}`,
+        ""
+      );
+      continue;
+    }
+
+    const { item } = entry;
+    const agentName = record.itemAgents[item.itemId] ?? "Assistant";
+    const at = stamp(record.itemTimes?.[item.itemId]);
+    if (item.type === "message") {
+      const language = record.itemLanguages?.[item.itemId];
+      const speaker =
+        item.role === "user"
+          ? language
+            ? `You (${language})`
+            : "You"
+          : item.role === "system"
+          ? "System"
+          : agentName;
+      lines.push(
+        `${at}**${speaker}:** ${messageText(item) || "_(no transcript)_"}`,
+        ""
+      );
+    } else if (isHandoffCall(item)) {
+      lines.push(
+        `${at}_${agentName} handed off to ${handoffTarget(item)}_`,
+        ""
+      );
+    } else {
+      lines.push(
+        `${at}**${agentName}** called \`${item.name}\``,
+        "",
+        "```json",
+        item.arguments,
+        "```",
+        ""
+      );
+      if (item.output !== null) {
+        lines.push("Output:", "", "```", item.output, "```", "");
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function sessionToJson(record: SessionRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+export function downloadFile(
+  filename: string,
+  content: string | Blob,
+  type: string
+) {
+  const url = URL.createObjectURL(
+    content instanceof Blob ? content : new Blob([content], { type })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
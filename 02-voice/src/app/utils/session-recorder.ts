@@ -0,0 +1,130 @@
+import { floatToPcm16, pcm16ToFloat } from "./wav";
+
+export type RecordingTrack = "mic" | "agent";
+
+export type Recording = {
+  /** When recording started; track offsets count from here */
+  startedAt: number;
+  sampleRate: number;
+  tracks: Record<RecordingTrack, Int16Array>;
+};
+
+/** Posts every block of its input to the page */
+const CAPTURE_PROCESSOR = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor("capture-processor", CaptureProcessor);
+`;
+
+/** How far a track may fall behind the clock before it is padded */
+const MAX_DRIFT_SECONDS = 0.25;
+
+export function resample(samples: Float32Array, from: number, to: number) {
+  if (from === to) return samples;
+  const output = new Float32Array(Math.round((samples.length * to) / from));
+  for (let i = 0; i < output.length; i++) {
+    const position = (i * from) / to;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    output[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return output;
+}
+
+export function concat(chunks: Float32Array[], length: number) {
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
+
+/** Registers the `capture-processor` worklet on the context */
+export async function loadCaptureWorklet(context: AudioContext) {
+  const moduleUrl = URL.createObjectURL(
+    new Blob([CAPTURE_PROCESSOR], { type: "application/javascript" })
+  );
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+}
+
+/**
+ * Records the microphone and the agent's voice as two tracks that share one
+ * clock, so both line up with each other and with the transcript. Tracks
+ * are fed from media streams (WebRTC) or base64 PCM16 audio deltas
+ * (WebSocket). Gaps where a source was silent or missing are filled in.
+ */
+export async function startRecorder() {
+  const context = new AudioContext();
+  await context.resume();
+  await loadCaptureWorklet(context);
+  // Worklets only run when connected to the destination; keep them silent
+  const sink = context.createGain();
+  sink.gain.value = 0;
+  sink.connect(context.destination);
+
+  const startedAt = Date.now();
+  const startTime = context.currentTime;
+  const chunks: Record<RecordingTrack, Float32Array[]> = { mic: [], agent: [] };
+  const lengths: Record<RecordingTrack, number> = { mic: 0, agent: 0 };
+  const nodes: AudioNode[] = [];
+
+  function append(track: RecordingTrack, samples: Float32Array) {
+    const elapsed = Math.round(
+      (context.currentTime - startTime) * context.sampleRate
+    );
+    const behind = elapsed - samples.length - lengths[track];
+    if (behind > MAX_DRIFT_SECONDS * context.sampleRate) {
+      chunks[track].push(new Float32Array(behind));
+      lengths[track] += behind;
+    }
+    chunks[track].push(samples);
+    lengths[track] += samples.length;
+  }
+
+  return {
+    startedAt,
+    addStream(track: RecordingTrack, stream: MediaStream) {
+      const source = context.createMediaStreamSource(stream);
+      const capture = new AudioWorkletNode(context, "capture-processor");
+      capture.port.onmessage = (event: MessageEvent<Float32Array>) =>
+        append(track, event.data);
+      source.connect(capture).connect(sink);
+      nodes.push(source, capture);
+    },
+    appendPcm16(track: RecordingTrack, base64: string, sampleRate: number) {
+      const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+      const pcm = new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+      append(
+        track,
+        resample(pcm16ToFloat(pcm), sampleRate, context.sampleRate)
+      );
+    },
+    async stop(): Promise<Recording> {
+      for (const node of nodes) {
+        node.disconnect();
+      }
+      await context.close();
+      return {
+        startedAt,
+        sampleRate: context.sampleRate,
+        tracks: {
+          mic: floatToPcm16(concat(chunks.mic, lengths.mic)),
+          agent: floatToPcm16(concat(chunks.agent, lengths.agent)),
+        },
+      };
+    },
+  };
+}
+
+export type SessionRecorder = Awaited<ReturnType<typeof startRecorder>>;
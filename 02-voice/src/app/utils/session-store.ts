@@ -0,0 +1,134 @@
+import type { RealtimeAgent, RealtimeItem } from "@openai/agents/realtime";
+import type { Locale } from "../config/locales";
+import type { Recording } from "./session-recorder";
+import type { TranscriptNote } from "./transcript";
+
+export type AgentSummary = {
+  name: string;
+  voice?: string;
+  tools: string[];
+  handoffs: string[];
+};
+
+export type SessionRecord = {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  agents: AgentSummary[];
+  history: RealtimeItem[];
+  notes: TranscriptNote[];
+  itemAgents: Record<string, string>;
+  /** When each history item first appeared, to line it up with the recording */
+  itemTimes?: Record<string, number>;
+  /** Set when the session was recorded; the audio is stored separately */
+  recording?: { startedAt: number; durationMs: number };
+  locale?: Locale;
+  /** Language detected in each user turn's transcript */
+  itemLanguages?: Record<string, Locale>;
+};
+
+/** Audio for a recorded session, kept out of the session list for speed */
+export type StoredRecording = Recording & { sessionId: string };
+
+const DB_NAME = "voice-agent-demo";
+const DB_VERSION = 2;
+const SESSIONS_STORE = "sessions";
+const RECORDINGS_STORE = "recordings";
+
+/**
+ * Walks the handoff graph from the root agent so the saved session records
+ * which agents, tools and handoffs were available.
+ */
+export function describeAgentRoster(root: RealtimeAgent): AgentSummary[] {
+  const seen = new Map<string, AgentSummary>();
+  const queue: RealtimeAgent[] = [root];
+
+  while (queue.length > 0) {
+    const agent = queue.shift()!;
+    if (seen.has(agent.name)) continue;
+
+    const targets = agent.handoffs.map((handoff) =>
+      "agent" in handoff ? handoff.agent : handoff
+    ) as RealtimeAgent[];
+    seen.set(agent.name, {
+      name: agent.name,
+      voice: agent.voice,
+      tools: agent.tools.map((tool) => tool.name),
+      handoffs: targets.map((target) => target.name),
+    });
+    queue.push(...targets);
+  }
+
+  return Array.from(seen.values());
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: "sessionId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  // Items can hold non-cloneable values from the SDK, so store a JSON copy
+  const plain = JSON.parse(JSON.stringify(record)) as SessionRecord;
+  await withStore(SESSIONS_STORE, "readwrite", (store) => store.put(plain));
+}
+
+export async function listSessions(): Promise<SessionRecord[]> {
+  const records = await withStore<SessionRecord[]>(
+    SESSIONS_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(SESSIONS_STORE, "readwrite", (store) => store.delete(id));
+  await withStore(RECORDINGS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function saveRecording(recording: StoredRecording): Promise<void> {
+  await withStore(RECORDINGS_STORE, "readwrite", (store) =>
+    store.put(recording)
+  );
+}
+
+export async function getRecording(
+  sessionId: string
+): Promise<StoredRecording | undefined> {
+  return withStore<StoredRecording | undefined>(
+    RECORDINGS_STORE,
+    "readonly",
+    (store) => store.get(sessionId)
+  );
+}
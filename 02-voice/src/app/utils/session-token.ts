@@ -0,0 +1,42 @@
+import type { SessionToken } from "../server/token";
+
+/** The token action drops leases it has not seen for two minutes */
+const LEASE_RENEW_MS = 60_000;
+
+export type SessionTokens = {
+  /** Mints a key for one connection: the first one or a reconnect */
+  take: () => Promise<string>;
+  /** Keeps the session's lease open on the server while it is connected */
+  keepAlive: () => void;
+  stop: () => void;
+};
+
+/**
+ * Ephemeral keys expire about a minute after they are minted and each one
+ * costs a mint against the caller's limits, so keys are minted only when a
+ * connection is made, never kept in reserve. Between connections the
+ * session's lease is renewed instead, which mints nothing.
+ */
+export function createSessionTokens(
+  mint: () => Promise<SessionToken>,
+  renew: () => Promise<void>
+): SessionTokens {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  return {
+    async take() {
+      return (await mint()).value;
+    },
+    keepAlive() {
+      timer ??= setInterval(() => {
+        renew().catch((error) =>
+          console.error("Failed to renew the session lease", error)
+        );
+      }, LEASE_RENEW_MS);
+    },
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import type { ScenarioStep } from "../../../mock-realtime/scenario";
+import type { ApprovalDecision } from "./transcript";
+
+export type ToolCallStatus =
+  | "awaiting_approval"
+  | "running"
+  | "done"
+  | "rejected";
+
+export type ToolCallRecord = {
+  callId: string;
+  name: string;
+  agentName: string;
+  /** When the model asked for the call, before any approval */
+  requestedAt: number;
+  status: ToolCallStatus;
+  /** The JSON string the model sent */
+  rawArguments: string;
+  approval?: ApprovalDecision;
+  rejectReason?: string;
+  /** What `execute` returned, as the string sent back to the model */
+  result?: string;
+  durationMs?: number;
+  /** Set while running, to measure the duration */
+  startedAt?: number;
+};
+
+export type ParsedJson =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string };
+
+export function parseJson(text: string): ParsedJson {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+type CallDetails = Pick<
+  ToolCallRecord,
+  "callId" | "name" | "agentName" | "rawArguments"
+>;
+
+/** Adds the call, or updates it if it was already listed */
+function upsert(
+  calls: ToolCallRecord[],
+  details: CallDetails,
+  update: (call: ToolCallRecord) => Partial<ToolCallRecord>
+) {
+  const existing = calls.find((call) => call.callId === details.callId);
+  if (!existing) {
+    const call: ToolCallRecord = {
+      ...details,
+      requestedAt: Date.now(),
+      status: "running",
+    };
+    return [...calls, { ...call, ...update(call) }];
+  }
+  return calls.map((call) =>
+    call === existing ? { ...call, ...update(call) } : call
+  );
+}
+
+export function toolCallRequested(
+  calls: ToolCallRecord[],
+  details: CallDetails
+) {
+  return upsert(calls, details, () => ({ status: "awaiting_approval" }));
+}
+
+export function toolCallDecided(
+  calls: ToolCallRecord[],
+  callId: string,
+  approval: ApprovalDecision,
+  rejectReason?: string
+) {
+  return calls.map((call) =>
+    call.callId === callId
+      ? {
+          ...call,
+          approval,
+          rejectReason,
+          status: approval === "rejected" ? ("rejected" as const) : call.status,
+        }
+      : call
+  );
+}
+
+/**
+ * Calls to a tool that was "always allowed" earlier in the session skip the
+ * approval request, so they inherit that decision.
+ */
+export function toolCallStarted(calls: ToolCallRecord[], details: CallDetails) {
+  const alwaysApproved = calls.some(
+    (call) => call.name === details.name && call.approval === "always_approved"
+  );
+  return upsert(calls, details, (call) => ({
+    status: "running",
+    startedAt: Date.now(),
+    approval: call.approval ?? (alwaysApproved ? "always_approved" : undefined),
+  }));
+}
+
+export function toolCallEnded(
+  calls: ToolCallRecord[],
+  details: CallDetails,
+  result: string
+) {
+  return upsert(calls, details, (call) => ({
+    status: "done",
+    result,
+    durationMs:
+      call.startedAt === undefined ? undefined : Date.now() - call.startedAt,
+  }));
+}
+
+export function filterToolCalls(
+  calls: ToolCallRecord[],
+  query: string,
+  status: ToolCallStatus | "all"
+) {
+  const needle = query.trim().toLowerCase();
+  return calls.filter(
+    (call) =>
+      (status === "all" || call.status === status) &&
+      (!needle ||
+        [call.name, call.agentName, call.rawArguments, call.result ?? ""].some(
+          (text) => text.toLowerCase().includes(needle)
+        ))
+  );
+}
+
+function parsedOrRaw(text: string) {
+  const parsed = parseJson(text);
+  return parsed.ok ? parsed.value : text;
+}
+
+/** A `call` step for a scenario in `mock-realtime/scenarios` */
+export function scenarioStepFixture(call: ToolCallRecord): ScenarioStep {
+  const args = parseJson(call.rawArguments);
+  return {
+    call: call.name,
+    arguments:
+      args.ok && typeof args.value === "object" && args.value !== null
+        ? (args.value as Record<string, unknown>)
+        : {},
+  };
+}
+
+/** The call's inputs and recorded output, for replaying in a unit test */
+export function testFixture(call: ToolCallRecord) {
+  return {
+    name: call.name,
+    agentName: call.agentName,
+    arguments: parsedOrRaw(call.rawArguments),
+    approval: call.approval ?? null,
+    ...(call.rejectReason ? { rejectReason: call.rejectReason } : {}),
+    output: call.result === undefined ? null : parsedOrRaw(call.result),
+  };
+}
@@ -0,0 +1,129 @@
+import type {
+  RealtimeItem,
+  RealtimeMessageItem,
+  RealtimeToolCallItem,
+} from "@openai/agents/realtime";
+import type { GuardrailMatch } from "./guardrails";
+
+export type ApprovalDecision = "approved" | "always_approved" | "rejected";
+
+type NoteBase = {
+  id: string;
+  anchorItemId?: string;
+  timestamp: number;
+  agentName: string;
+};
+
+export type ToolApprovalNote = NoteBase & {
+  type: "tool_approval";
+  toolName: string;
+  decision: ApprovalDecision;
+  reason?: string;
+};
+
+export type GuardrailNote = NoteBase & {
+  type: "guardrail_tripped";
+  guardrailName: string;
+  /** The transcript the guardrail checked; match ranges index into it */
+  text: string;
+  matches: GuardrailMatch[];
+};
+
+export type ReconnectNote = NoteBase & {
+  type: "reconnected";
+  /** Attempts it took to reconnect */
+  attempts: number;
+  /** Turns from the summary the new session was seeded with */
+  restoredTurns: number;
+};
+
+/**
+ * Local events that are not part of the model's history but belong in the
+ * transcript. `anchorItemId` places the note right after that history item.
+ */
+export type TranscriptNote = ToolApprovalNote | GuardrailNote | ReconnectNote;
+
+export type TranscriptEntry =
+  | { kind: "item"; item: RealtimeItem }
+  | { kind: "note"; note: TranscriptNote };
+
+/**
+ * Interleaves notes with the history. Notes whose anchor is not in the
+ * history (yet) are appended at the end in the order they were recorded.
+ */
+export function mergeTranscript(
+  history: RealtimeItem[],
+  notes: TranscriptNote[]
+): TranscriptEntry[] {
+  const itemIds = new Set(history.map((item) => item.itemId));
+  const entries: TranscriptEntry[] = [];
+
+  for (const item of history) {
+    if (!isSeedItem(item)) {
+      entries.push({ kind: "item", item });
+    }
+    for (const note of notes) {
+      if (note.anchorItemId === item.itemId) {
+        entries.push({ kind: "note", note });
+      }
+    }
+  }
+
+  for (const note of notes) {
+    if (!note.anchorItemId || !itemIds.has(note.anchorItemId)) {
+      entries.push({ kind: "note", note });
+    }
+  }
+
+  return entries;
+}
+
+const HANDOFF_TOOL_PREFIX = "transfer_to_";
+const SEED_ITEM_PREFIX = "seed_";
+
+/** Item IDs are client-generated for seeds and limited to 32 characters */
+export function seedItemId() {
+  const suffix = crypto.randomUUID().replace(/-/g, "").slice(0, 24);
+  return `${SEED_ITEM_PREFIX}${suffix}`;
+}
+
+/**
+ * The history summary a reconnected session is seeded with. It is shown as
+ * a reconnect note rather than as a message.
+ */
+export function isSeedItem(item: RealtimeItem) {
+  return item.itemId.startsWith(SEED_ITEM_PREFIX);
+}
+
+export function isHandoffCall(item: RealtimeToolCallItem) {
+  return item.name.startsWith(HANDOFF_TOOL_PREFIX);
+}
+
+/**
+ * Name of the agent a handoff call transferred to. Falls back to the tool
+ * name suffix until the handoff has completed and its output is available.
+ */
+export function handoffTarget(item: RealtimeToolCallItem): string {
+  try {
+    return JSON.parse(item.output ?? "").assistant;
+  } catch {
+    return item.name.slice(HANDOFF_TOOL_PREFIX.length);
+  }
+}
+
+/** Joins the text and audio transcript parts of a message */
+export function messageText(item: RealtimeMessageItem) {
+  return item.content
+    .map((part) => {
+      switch (part.type) {
+        case "input_text":
+        case "text":
+          return part.text;
+        case "input_audio":
+        case "audio":
+          return part.transcript ?? "";
+      }
+    })
+    .join(" ")
+    .trim();
+}
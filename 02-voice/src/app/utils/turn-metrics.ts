@@ -0,0 +1,216 @@
+import z from "zod";
+import type { SessionConfig } from "../config/session";
+import { MODEL_PRICING } from "../config/pricing";
+import type { ServerEvent } from "./realtime-transport";
+
+/** What started the turn the latencies are measured from */
+export type TurnTrigger = "speech" | "push_to_talk" | "text" | "response";
+
+export type TurnUsage = {
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  cachedTextTokens: number;
+  cachedAudioTokens: number;
+  outputTextTokens: number;
+  outputAudioTokens: number;
+};
+
+export type ToolTiming = {
+  name: string;
+  durationMs: number;
+};
+
+export type TurnMetrics = {
+  id: string;
+  trigger: TurnTrigger;
+  startedAt: number;
+  /** Milliseconds from the start of the turn; `null` if it never happened */
+  firstAudioMs: number | null;
+  firstTranscriptMs: number | null;
+  responseDoneMs: number | null;
+  /** Responses in the turn, e.g. a tool call and the answer that follows */
+  responses: number;
+  tools: ToolTiming[];
+  usage: TurnUsage;
+  interrupted: boolean;
+};
+
+const emptyUsage = (): TurnUsage => ({
+  inputTextTokens: 0,
+  inputAudioTokens: 0,
+  cachedTextTokens: 0,
+  cachedAudioTokens: 0,
+  outputTextTokens: 0,
+  outputAudioTokens: 0,
+});
+
+const tokenCountsSchema = z.object({
+  text_tokens: z.number().optional(),
+  audio_tokens: z.number().optional(),
+});
+
+/** The parts of `response.done` the metrics read, as the Realtime API sends them */
+const responseDoneSchema = z.object({
+  response: z.object({
+    status: z.string().optional(),
+    output: z.array(z.object({ type: z.string().optional() })).default([]),
+    usage: z
+      .object({
+        input_token_details: tokenCountsSchema
+          .extend({ cached_tokens_details: tokenCountsSchema.optional() })
+          .optional(),
+        output_token_details: tokenCountsSchema.optional(),
+      })
+      .nullish(),
+  }),
+});
+
+type ResponseUsage = z.infer<typeof responseDoneSchema>["response"]["usage"];
+
+function addUsage(turn: TurnMetrics, usage: ResponseUsage) {
+  if (!usage) return;
+  const input = usage.input_token_details ?? {};
+  const output = usage.output_token_details ?? {};
+  const cached = input.cached_tokens_details ?? {};
+  turn.usage.inputTextTokens += input.text_tokens ?? 0;
+  turn.usage.inputAudioTokens += input.audio_tokens ?? 0;
+  turn.usage.cachedTextTokens += cached.text_tokens ?? 0;
+  turn.usage.cachedAudioTokens += cached.audio_tokens ?? 0;
+  turn.usage.outputTextTokens += output.text_tokens ?? 0;
+  turn.usage.outputAudioTokens += output.audio_tokens ?? 0;
+}
+
+/**
+ * Measures each turn from the raw server events of the transport. A turn
+ * starts when the user stops speaking (or sends text) and ends with the
+ * first `response.done` that does not call a tool, so tool calls, handoffs
+ * and the answer that follows them count as one turn.
+ */
+export function createTurnMetricsTracker(
+  onTurnDone: (turn: TurnMetrics) => void
+) {
+  let turn: TurnMetrics | null = null;
+  const toolStarts = new Map<string, number>();
+
+  function elapsed() {
+    return turn ? Date.now() - turn.startedAt : null;
+  }
+
+  function finish() {
+    if (turn) {
+      onTurnDone(turn);
+      turn = null;
+    }
+  }
+
+  function startTurn(trigger: TurnTrigger) {
+    // A new turn while the last one is still open means it was cut short
+    if (turn) {
+      turn.interrupted = true;
+      finish();
+    }
+    turn = {
+      id: crypto.randomUUID(),
+      trigger,
+      startedAt: Date.now(),
+      firstAudioMs: null,
+      firstTranscriptMs: null,
+      responseDoneMs: null,
+      responses: 0,
+      tools: [],
+      usage: emptyUsage(),
+      interrupted: false,
+    };
+  }
+
+  function handleServerEvent(event: ServerEvent) {
+    switch (event.type) {
+      case "input_audio_buffer.speech_stopped":
+        startTurn("speech");
+        break;
+      case "response.created":
+        if (!turn) startTurn("response");
+        turn!.responses += 1;
+        break;
+      // WebRTC plays audio from a media track, so the data channel only
+      // reports when the output buffer starts
+      case "response.audio.delta":
+      case "output_audio_buffer.started":
+        if (turn && turn.firstAudioMs === null) turn.firstAudioMs = elapsed();
+        break;
+      case "response.audio_transcript.delta":
+      case "response.text.delta":
+        if (turn && turn.firstTranscriptMs === null) {
+          turn.firstTranscriptMs = elapsed();
+        }
+        break;
+      case "response.done": {
+        if (!turn) break;
+        const parsed = responseDoneSchema.safeParse(event);
+        // A response the schema does not recognise still ends the turn
+        const { status, output, usage } = parsed.success
+          ? parsed.data.response
+          : { status: undefined, output: [], usage: undefined };
+        addUsage(turn, usage);
+        turn.responseDoneMs = elapsed();
+        if (status === "cancelled") turn.interrupted = true;
+        const callsTool = output.some((item) => item.type === "function_call");
+        if (!callsTool) finish();
+        break;
+      }
+    }
+  }
+
+  return {
+    handleServerEvent,
+    /** For turns the server does not detect, e.g. push-to-talk and typed text */
+    startTurn,
+    toolStarted(callId: string) {
+      toolStarts.set(callId, Date.now());
+    },
+    toolEnded(callId: string, name: string) {
+      const startedAt = toolStarts.get(callId);
+      toolStarts.delete(callId);
+      if (turn && startedAt !== undefined) {
+        turn.tools.push({ name, durationMs: Date.now() - startedAt });
+      }
+    },
+  };
+}
+
+export type TurnMetricsTracker = ReturnType<typeof createTurnMetricsTracker>;
+
+/** Nearest-rank percentile, `null` for an empty list */
+export function percentile(values: number[], p: number) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+export function totalUsage(turns: TurnMetrics[]): TurnUsage {
+  const total = emptyUsage();
+  for (const { usage } of turns) {
+    for (const key of Object.keys(total) as (keyof TurnUsage)[]) {
+      total[key] += usage[key];
+    }
+  }
+  return total;
+}
+
+/** Estimated cost in US dollars, `null` if the model has no price listed */
+export function estimateCost(usage: TurnUsage, model: SessionConfig["model"]) {
+  const price = MODEL_PRICING[model];
+  if (!price) return null;
+  const perToken = (dollarsPerMillion: number) => dollarsPerMillion / 1e6;
+  return (
+    (usage.inputTextTokens - usage.cachedTextTokens) *
+      perToken(price.textInput) +
+    usage.cachedTextTokens * perToken(price.cachedTextInput) +
+    (usage.inputAudioTokens - usage.cachedAudioTokens) *
+      perToken(price.audioInput) +
+    usage.cachedAudioTokens * perToken(price.cachedAudioInput) +
+    usage.outputTextTokens * perToken(price.textOutput) +
+    usage.outputAudioTokens * perToken(price.audioOutput)
+  );
+}
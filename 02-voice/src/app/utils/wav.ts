@@ -0,0 +1,66 @@
+/** 16-bit PCM WAV with one channel per track, interleaved */
+export function encodeWav(channels: Int16Array[], sampleRate: number): Blob {
+  const length = Math.max(...channels.map((channel) => channel.length));
+  const blockAlign = channels.length * 2;
+  const dataSize = length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      // Shorter tracks are padded with silence
+      view.setInt16(offset, channel[i] ?? 0, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
+
+/** Sums the tracks into one, clipping at full scale */
+export function mixTracks(tracks: Int16Array[]): Int16Array {
+  const length = Math.max(...tracks.map((track) => track.length));
+  const mixed = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const sum = tracks.reduce((total, track) => total + (track[i] ?? 0), 0);
+    mixed[i] = Math.max(-32768, Math.min(32767, sum));
+  }
+  return mixed;
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+export function pcm16ToFloat(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 0x8000;
+  }
+  return samples;
+}
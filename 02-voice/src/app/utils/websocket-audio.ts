@@ -0,0 +1,129 @@
+import { concat, loadCaptureWorklet, resample } from "./session-recorder";
+import { floatToPcm16, pcm16ToFloat } from "./wav";
+
+/** The Realtime API's `pcm16` audio: 24 kHz, mono */
+export const REALTIME_SAMPLE_RATE = 24_000;
+
+/** Mic audio is sent in chunks of about this length */
+const CHUNK_MS = 40;
+
+type WebSocketAudioOptions = {
+  /** Sends one chunk of PCM16 mic audio to the session */
+  sendAudio: (audio: ArrayBuffer) => void;
+  onMicStream?: (stream: MediaStream) => void;
+  /** Whether the agent's audio is playing */
+  onSpeakingChange?: (speaking: boolean) => void;
+};
+
+/**
+ * WebSocket sessions only carry events, so the page handles the audio that
+ * WebRTC would: the microphone is captured with an AudioWorklet and sent as
+ * PCM16 at 24 kHz, and the agent's audio deltas are queued back to back on
+ * an AudioContext. Muting stops sending; the mic itself stays open.
+ */
+export async function startWebSocketAudio({
+  sendAudio,
+  onMicStream,
+  onSpeakingChange,
+}: WebSocketAudioOptions) {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true },
+  });
+  const context = new AudioContext();
+  try {
+    await context.resume();
+    await loadCaptureWorklet(context);
+  } catch (error) {
+    stream.getTracks().forEach((track) => track.stop());
+    await context.close();
+    throw error;
+  }
+  onMicStream?.(stream);
+
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, "capture-processor");
+  // Worklets only run when connected to the destination; keep it silent
+  const sink = context.createGain();
+  sink.gain.value = 0;
+  source.connect(capture).connect(sink).connect(context.destination);
+
+  let muted = false;
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  const chunkLength = (context.sampleRate * CHUNK_MS) / 1000;
+
+  capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    if (muted) return;
+    pending.push(event.data);
+    pendingLength += event.data.length;
+    if (pendingLength < chunkLength) return;
+    const samples = concat(pending, pendingLength);
+    pending = [];
+    pendingLength = 0;
+    const pcm = floatToPcm16(
+      resample(samples, context.sampleRate, REALTIME_SAMPLE_RATE)
+    );
+    sendAudio(pcm.buffer as ArrayBuffer);
+  };
+
+  const playing = new Set<AudioBufferSourceNode>();
+  /** When the queued agent audio ends, in context time */
+  let playhead = 0;
+
+  function clearPlayback() {
+    for (const node of playing) {
+      node.onended = null;
+      node.stop();
+    }
+    if (playing.size > 0) {
+      playing.clear();
+      onSpeakingChange?.(false);
+    }
+    playhead = 0;
+  }
+
+  return {
+    get muted() {
+      return muted;
+    },
+    mute(value: boolean) {
+      muted = value;
+      pending = [];
+      pendingLength = 0;
+    },
+    /** Queues one PCM16 delta of the agent's audio after the previous ones */
+    play(pcm: ArrayBuffer) {
+      const samples = pcm16ToFloat(new Int16Array(pcm, 0, pcm.byteLength >> 1));
+      if (samples.length === 0) return;
+      const buffer = context.createBuffer(
+        1,
+        samples.length,
+        REALTIME_SAMPLE_RATE
+      );
+      buffer.getChannelData(0).set(samples);
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+      node.connect(context.destination);
+      playhead = Math.max(playhead, context.currentTime);
+      node.start(playhead);
+      playhead += buffer.duration;
+      playing.add(node);
+      if (playing.size === 1) onSpeakingChange?.(true);
+      node.onended = () => {
+        playing.delete(node);
+        if (playing.size === 0) onSpeakingChange?.(false);
+      };
+    },
+    /** Drops the agent audio that is playing or queued, e.g. on interrupt */
+    clearPlayback,
+    async stop() {
+      clearPlayback();
+      source.disconnect();
+      capture.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+      await context.close();
+    },
+  };
+}
+
+export type WebSocketAudio = Awaited<ReturnType<typeof startWebSocketAudio>>;
@@ -5,9 +5,25 @@
 
 import { Agent, webSearchTool, Runner } from '@openai/agents';
 import { AGENT_CONFIG } from '../config';
-import { weatherTool } from '../tools';
+import {
+  weatherTool,
+  forecastTool,
+  createToolBundle,
+  createFileOperationsTools,
+  FILE_OPERATION_TOOL_NAMES,
+  type FileOperationsOptions,
+  createProcessManagementTools,
+  PROCESS_MANAGEMENT_TOOL_NAMES,
+  type ProcessManagementOptions,
+  createServerManagementTools,
+  SERVER_MANAGEMENT_TOOL_NAMES,
+  type ServerManagementOptions,
+  createSystemInfoTools,
+  SYSTEM_INFO_TOOL_NAMES,
+  type SystemInfoOptions,
+} from '../tools';
 import { context7Server } from '../servers';
-import { buildInstructions, getInstructionBuilder } from './instructions';
+import { buildInstructions, getInstructionBuilder, FILE_TOOLS_INSTRUCTIONS, PROCESS_TOOLS_INSTRUCTIONS, SERVER_TOOLS_INSTRUCTIONS, SYSTEM_TOOLS_INSTRUCTIONS } from './instructions';
 import type { 
   ConversationContext, 
   InstructionsContext, 
@@ -25,6 +41,18 @@ export interface AgentCreationOptions {
   enableWeather?: boolean;
   enableWebSearch?: boolean;
   enableDocumentation?: boolean;
+  enableFileOperations?: boolean;
+  /** Overrides the workspace root and limits of the file tools */
+  fileOperations?: FileOperationsOptions;
+  enableProcessManagement?: boolean;
+  /** Overrides the command allowlist and timeouts of the process tools */
+  processManagement?: ProcessManagementOptions;
+  enableServerManagement?: boolean;
+  /** Uses another dev server manager, e.g. one with servers added in code */
+  serverManagement?: ServerManagementOptions;
+  enableSystemInfo?: boolean;
+  /** Checks other environment variables or lists more top processes */
+  systemInfo?: SystemInfoOptions;
   mcpServers?: Array<any>;
   instructionType?: 'default' | 'weather' | 'search' | 'documentation' | 'chat';
   customInstructions?: string;
@@ -43,6 +71,10 @@ export const DEFAULT_AGENT_OPTIONS: AgentCreationOptions = {
   enableWeather: true,
   enableWebSearch: true,
   enableDocumentation: true,
+  enableFileOperations: true,
+  enableProcessManagement: true,
+  enableServerManagement: true,
+  enableSystemInfo: true,
   mcpServers: [context7Server],
   instructionType: 'default',
 };
@@ -63,7 +95,31 @@ export const createAdvancedAgent = (
   }
   
   if (opts.enableWeather) {
-    tools.push(weatherTool);
+    tools.push(weatherTool, forecastTool);
+  }
+
+  if (opts.enableFileOperations) {
+    tools.push(...(opts.fileOperations
+      ? Object.values(createFileOperationsTools(opts.fileOperations))
+      : createToolBundle([...FILE_OPERATION_TOOL_NAMES])));
+  }
+
+  if (opts.enableProcessManagement) {
+    tools.push(...(opts.processManagement
+      ? Object.values(createProcessManagementTools(opts.processManagement))
+      : createToolBundle([...PROCESS_MANAGEMENT_TOOL_NAMES])));
+  }
+
+  if (opts.enableServerManagement) {
+    tools.push(...(opts.serverManagement
+      ? Object.values(createServerManagementTools(opts.serverManagement))
+      : createToolBundle([...SERVER_MANAGEMENT_TOOL_NAMES])));
+  }
+
+  if (opts.enableSystemInfo) {
+    tools.push(...(opts.systemInfo
+      ? Object.values(createSystemInfoTools(opts.systemInfo))
+      : createToolBundle([...SYSTEM_INFO_TOOL_NAMES])));
   }
   
   // Get instruction builder
@@ -76,7 +132,20 @@ export const createAdvancedAgent = (
       if (opts.customInstructions) {
         return opts.customInstructions;
       }
-      return instructionBuilder(context);
+      const sections = [instructionBuilder(context)];
+      if (opts.enableFileOperations) {
+        sections.push(FILE_TOOLS_INSTRUCTIONS);
+      }
+      if (opts.enableProcessManagement) {
+        sections.push(PROCESS_TOOLS_INSTRUCTIONS);
+      }
+      if (opts.enableServerManagement) {
+        sections.push(SERVER_TOOLS_INSTRUCTIONS);
+      }
+      if (opts.enableSystemInfo) {
+        sections.push(SYSTEM_TOOLS_INSTRUCTIONS);
+      }
+      return sections.join('\n\n');
     },
     model: opts.model,
     tools,
@@ -96,6 +165,10 @@ export const createWeatherAgent = (
     enableWeather: true,
     enableWebSearch: false,
     enableDocumentation: false,
+    enableFileOperations: false,
+    enableProcessManagement: false,
+    enableServerManagement: false,
+    enableSystemInfo: false,
     instructionType: 'weather',
   });
 };
@@ -112,6 +185,10 @@ export const createSearchAgent = (
     enableWeather: false,
     enableWebSearch: true,
     enableDocumentation: false,
+    enableFileOperations: false,
+    enableProcessManagement: false,
+    enableServerManagement: false,
+    enableSystemInfo: false,
     instructionType: 'search',
   });
 };
@@ -128,6 +205,10 @@ export const createDocumentationAgent = (
     enableWeather: false,
     enableWebSearch: false,
     enableDocumentation: true,
+    enableFileOperations: false,
+    enableProcessManagement: false,
+    enableServerManagement: false,
+    enableSystemInfo: false,
     instructionType: 'documentation',
   });
 };
@@ -144,6 +225,10 @@ export const createChatAgent = (
     enableWeather: false,
     enableWebSearch: false,
     enableDocumentation: false,
+    enableFileOperations: false,
+    enableProcessManagement: false,
+    enableServerManagement: false,
+    enableSystemInfo: false,
     instructionType: 'chat',
   });
 };
@@ -417,6 +502,10 @@ export const agentPresets = {
     enableWeather: false,
     enableWebSearch: false,
     enableDocumentation: false,
+    enableFileOperations: false,
+    enableProcessManagement: false,
+    enableServerManagement: false,
+    enableSystemInfo: false,
     instructionType: 'chat',
   }),
 };
\ No newline at end of file
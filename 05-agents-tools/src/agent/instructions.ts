@@ -5,6 +5,9 @@
 
 import { 
   AGENT_CONFIG, 
+  FILE_OPERATIONS_CONFIG, 
+  PROCESS_CONFIG, 
+  SERVER_MANAGEMENT_CONFIG, 
   TOOL_DESCRIPTIONS, 
   EXAMPLE_QUERIES 
 } from '../config';
@@ -16,7 +19,7 @@ import type { ConversationContext, InstructionsContext } from '../types';
 export const BASE_INSTRUCTIONS = `You are a helpful assistant with access to weather information, web search, and the latest documentation tools.
 
 AVAILABLE TOOLS:
-1. **Weather Tool**: Use get_weather for weather-related queries
+1. **Weather Tools**: Use get_weather for current weather and get_forecast for the next 5 days
 2. **Web Search Tool**: Use webSearch for general information searches  
 3. **Context7 MCP Tools**: Use resolve-library-id and get-library-docs for latest documentation via Context7 MCP server
 
@@ -24,6 +27,7 @@ WHEN TO USE WEATHER TOOL:
 - When users ask about weather, temperature, climate conditions
 - Queries like "What's the weather in [location]?", "How hot is it in [city]?", "Will it rain in [place]?"
 - Current weather conditions, temperature, humidity, wind, etc.
+- Use get_forecast for questions about later today, tomorrow or the coming days ("Will it rain tomorrow in [place]?"); pass date "today", "tomorrow" or YYYY-MM-DD, or hours for the next few hours
 
 WHEN TO USE WEB SEARCH:
 - When users explicitly ask to "search", "find", "look up" information
@@ -71,6 +75,44 @@ When you use tools:
 
 For general conversation, respond naturally without using tools.`;
 
+/**
+ * Instructions added when the file operations tools are enabled
+ */
+export const FILE_TOOLS_INSTRUCTIONS = `FILE TOOLS:
+You can work with files in the workspace (${FILE_OPERATIONS_CONFIG.WORKSPACE_ROOT}). All paths are relative to it.
+- Use list_directory, glob_files and grep_files to find files before reading them
+- Use read_file with a line or byte range for large files instead of reading them whole
+- Use patch_file for small edits and write_file to create files or replace them completely
+- Writes and patches need the user's approval; if the user declines, do not retry the same change`;
+
+/**
+ * Instructions added when the process management tools are enabled
+ */
+export const PROCESS_TOOLS_INSTRUCTIONS = `PROCESS TOOLS:
+You can run these commands in the workspace: ${PROCESS_CONFIG.ALLOWED_COMMANDS.join(', ')}.
+- Use run_command with one command at a time; pipes, redirects and variables are not supported
+- Long-running commands keep running: read more with read_process_output and stop them with terminate_process
+- Use list_processes to check CPU and memory use of running processes
+- Running and stopping commands need the user's approval; if the user declines, do not retry the same command`;
+
+/**
+ * Instructions added when the dev server tools are enabled
+ */
+export const SERVER_TOOLS_INSTRUCTIONS = `DEV SERVER TOOLS:
+You can manage the dev servers configured in ${SERVER_MANAGEMENT_CONFIG.CONFIG_FILE}.
+- Use list_dev_servers to see the configured servers, their ports and status
+- start_dev_server waits until the server is ready; restart_dev_server after config or dependency changes
+- When a server fails or misbehaves, read get_server_logs before suggesting fixes
+- Starting, stopping and restarting need the user's approval; if the user declines, do not retry`;
+
+/**
+ * Instructions added when the system information tools are enabled
+ */
+export const SYSTEM_TOOLS_INSTRUCTIONS = `SYSTEM INFO TOOLS:
+- When the user asks why the machine is slow, start with get_system_overview (load per CPU above 1 or memory above 90% are signs), then check get_disk_usage
+- When the user asks if their environment is set up, use check_environment; it never reveals secret values, and you must not ask for them
+- Use list_listening_ports to find what is using a port, e.g. before starting a dev server`;
+
 /**
  * Build dynamic instructions based on context
  */
@@ -97,13 +139,15 @@ export const buildWeatherInstructions = (context: InstructionsContext): string =
   const weatherInstructions = `You are a weather specialist assistant with access to real-time weather data.
 
 AVAILABLE TOOLS:
-1. **Weather Tool**: Use get_weather for all weather-related queries
+1. **Weather Tool**: Use get_weather for all current weather queries
+2. **Forecast Tool**: Use get_forecast for the coming hours and the next 5 days
 
 WHEN TO USE WEATHER TOOL:
 - All weather-related queries including temperature, conditions, forecasts
 - Location-specific weather requests
 - Current weather conditions, humidity, wind speed, visibility
 - Weather comparisons between locations
+- For forecasts, pass date "today", "tomorrow" or YYYY-MM-DD to get_forecast rather than reading all days
 
 RESPONSE GUIDELINES:
 - Always provide comprehensive weather information
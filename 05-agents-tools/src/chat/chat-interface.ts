@@ -7,7 +7,8 @@ import { ConversationContext } from '../types';
 import { ChatLoop } from './chat-loop';
 import { CLIInterface } from '../utils/cli-interface';
 import { createAgent } from '../agent';
-import { context7Server } from '../servers';
+import { context7Server, serverManager } from '../servers';
+import { processTracker } from '../tools';
 import { Runner } from '@openai/agents';
 import { config } from '../config';
 
@@ -70,6 +71,12 @@ export class ChatInterface {
     try {
       // Close chat loop
       this.chatLoop.close();
+
+      // Stop commands the agent started that are still running
+      await processTracker.stopAll();
+
+      // Stop dev servers the agent started
+      await serverManager.stopAll();
       
       // Disconnect MCP server if connected
       if (context7Server) {
@@ -10,7 +10,7 @@ import { CLIInterface } from '../utils/cli-interface';
 import { ErrorHandler } from '../utils/error-handler';
 import { classifyQuery } from './query-classifier';
 import { Runner } from '@openai/agents';
-import type { Agent } from '@openai/agents';
+import type { Agent, RunToolApprovalItem } from '@openai/agents';
 
 export class ChatLoop {
   private rl: readline.Interface | null = null;
@@ -98,7 +98,7 @@ export class ChatLoop {
     this.cliInterface.showQueryTypeIndicator(queryType);
     
     // Execute the agent with streaming
-    const result = await this.runner.run(
+    let result = await this.runner.run(
       agent,
       userInput.trim(),
       { 
@@ -109,13 +109,41 @@ export class ChatLoop {
 
     // Stream the response
     console.log('\nAssistant: ');
-    const responseText = await this.streamingHandler.streamResponse(result);
+    let responseText = await this.streamingHandler.streamResponse(result);
+
+    // Tools that need approval pause the run until the user decides
+    while (result.interruptions?.length) {
+      for (const interruption of result.interruptions) {
+        if (await this.confirmToolCall(interruption)) {
+          result.state.approve(interruption);
+        } else {
+          result.state.reject(interruption);
+        }
+      }
+      result = await this.runner.run(agent, result.state, { stream: true });
+      responseText += await this.streamingHandler.streamResponse(result);
+    }
     console.log('\n');
 
     // Add assistant response to conversation history
     conversationContext.conversationHistory.push(`Assistant: ${responseText}`);
   }
 
+  /**
+   * Ask the user whether a tool call may run
+   */
+  private async confirmToolCall(interruption: RunToolApprovalItem): Promise<boolean> {
+    const rawItem: { name?: string; arguments?: unknown } = interruption.rawItem;
+    const toolName = rawItem.name ?? 'tool';
+    const args = typeof rawItem.arguments === 'string' ? rawItem.arguments : '';
+    this.cliInterface.showApprovalRequest(toolName, args);
+
+    const answer = await new Promise<string>((resolve) => {
+      this.rl!.question('Approve? (y/n): ', resolve);
+    });
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+  }
+
   /**
    * Close the chat interface
    */
@@ -108,9 +108,29 @@ export const DEFAULTS = {
 // Tool names
 export const TOOL_NAMES = {
   WEATHER: 'get_weather',
+  FORECAST: 'get_forecast',
   WEB_SEARCH: 'webSearch',
   RESOLVE_LIBRARY_ID: 'resolve-library-id',
   GET_LIBRARY_DOCS: 'get-library-docs',
+  LIST_DIRECTORY: 'list_directory',
+  READ_FILE: 'read_file',
+  GLOB_FILES: 'glob_files',
+  GREP_FILES: 'grep_files',
+  WRITE_FILE: 'write_file',
+  PATCH_FILE: 'patch_file',
+  LIST_PROCESSES: 'list_processes',
+  RUN_COMMAND: 'run_command',
+  READ_PROCESS_OUTPUT: 'read_process_output',
+  TERMINATE_PROCESS: 'terminate_process',
+  LIST_DEV_SERVERS: 'list_dev_servers',
+  START_DEV_SERVER: 'start_dev_server',
+  STOP_DEV_SERVER: 'stop_dev_server',
+  RESTART_DEV_SERVER: 'restart_dev_server',
+  GET_SERVER_LOGS: 'get_server_logs',
+  GET_SYSTEM_OVERVIEW: 'get_system_overview',
+  GET_DISK_USAGE: 'get_disk_usage',
+  CHECK_ENVIRONMENT: 'check_environment',
+  LIST_LISTENING_PORTS: 'list_listening_ports',
 } as const;
 
 // Model names
@@ -14,6 +14,9 @@ export const ENV_VARS = {
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   OPENWEATHER_API_KEY: process.env.OPENWEATHER_API_KEY,
   CONTEXT7_API_KEY: process.env.CONTEXT7_API_KEY,
+  WORKSPACE_ROOT: process.env.WORKSPACE_ROOT,
+  ALLOWED_COMMANDS: process.env.ALLOWED_COMMANDS,
+  DEV_SERVERS_FILE: process.env.DEV_SERVERS_FILE,
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: process.env.PORT || '3000',
 } as const;
@@ -23,6 +26,55 @@ export const WEATHER_CONFIG = {
   API_KEY: ENV_VARS.OPENWEATHER_API_KEY,
   BASE_URL: 'https://api.openweathermap.org/data/2.5',
   DEFAULT_UNITS: 'metric',
+  // The free forecast API returns 5 days in 3-hour periods
+  FORECAST_DAYS: 5,
+} as const;
+
+// File operations configuration (tools cannot reach outside WORKSPACE_ROOT)
+export const FILE_OPERATIONS_CONFIG = {
+  WORKSPACE_ROOT: path.resolve(ENV_VARS.WORKSPACE_ROOT || process.cwd()),
+  MAX_READ_BYTES: 256 * 1024,
+  MAX_WRITE_BYTES: 1024 * 1024,
+  MAX_LIST_ENTRIES: 500,
+  MAX_SEARCH_RESULTS: 200,
+  MAX_SEARCH_FILE_BYTES: 1024 * 1024,
+  IGNORED_DIRECTORIES: ['.git', 'node_modules', 'dist'],
+} as const;
+
+// Process management configuration (commands run in the workspace root)
+export const PROCESS_CONFIG = {
+  // Comma-separated command prefixes, e.g. "npm test,npm run build,git status"
+  ALLOWED_COMMANDS: ENV_VARS.ALLOWED_COMMANDS
+    ? ENV_VARS.ALLOWED_COMMANDS.split(',').map(command => command.trim()).filter(Boolean)
+    : ['npm test', 'npm run build', 'npm run lint', 'npx tsc', 'node --version', 'npm --version', 'git status', 'git diff', 'git log'],
+  DEFAULT_TIMEOUT_MS: 2 * 60 * 1000,
+  MAX_TIMEOUT_MS: 10 * 60 * 1000,
+  INITIAL_WAIT_MS: 10 * 1000,
+  OUTPUT_CHUNK_CHARS: 4000,
+  MAX_OUTPUT_BUFFER_CHARS: 1000 * 1000,
+  MAX_LISTED_PROCESSES: 100,
+  KILL_GRACE_PERIOD_MS: 5000,
+  // Options that make an allowed command write files, e.g. "git diff --output=/tmp/x"
+  FILE_WRITING_OPTIONS: ['--output', '-o', '--out', '--outDir', '--outFile', '--output-file', '--declarationDir', '--tsBuildInfoFile', '--log-file'],
+} as const;
+
+// Dev server management configuration (servers are defined in a JSON file)
+export const SERVER_MANAGEMENT_CONFIG = {
+  CONFIG_FILE: path.resolve(FILE_OPERATIONS_CONFIG.WORKSPACE_ROOT, ENV_VARS.DEV_SERVERS_FILE || 'dev-servers.json'),
+  READY_TIMEOUT_MS: 60 * 1000,
+  READY_POLL_INTERVAL_MS: 500,
+  STOP_GRACE_PERIOD_MS: 5000,
+  MAX_LOG_LINES: 1000,
+  DEFAULT_TAIL_LINES: 50,
+  MAX_TAIL_LINES: 500,
+} as const;
+
+// System information configuration
+export const SYSTEM_INFO_CONFIG = {
+  TOP_PROCESSES: 5,
+  COMMAND_TIMEOUT_MS: 5000,
+  // Minimum Node.js major version for the workshop projects
+  MIN_NODE_MAJOR_VERSION: 18,
 } as const;
 
 // Agent configuration
@@ -78,6 +130,9 @@ export const ERROR_MESSAGES = {
   WEATHER_LOCATION_NOT_FOUND: 'Location not found. Please check the spelling and try again.',
   WEATHER_LOCATION_SUGGESTION: 'Try using a more specific location name, like "New York, NY" or "London, UK"',
   WEATHER_FETCH_ERROR: 'Unable to fetch weather data at this time.',
+  WEATHER_RESPONSE_INVALID: 'The weather service returned data in an unexpected format.',
+  FORECAST_OUT_OF_RANGE: 'The forecast does not cover the requested time.',
+  FORECAST_RANGE_SUGGESTION: 'Forecasts cover the next 5 days. Ask for "today", "tomorrow" or a date within that range.',
   MAX_TURNS_EXCEEDED: '⚠️ The agent reached the maximum number of turns. This might indicate a complex query or potential loop.',
   MAX_TURNS_SUGGESTION: 'Try rephrasing your question or breaking it into smaller parts.\n',
   MODEL_BEHAVIOR_ERROR: '⚠️ The model exhibited unexpected behavior. Please try again.',
@@ -85,6 +140,34 @@ export const ERROR_MESSAGES = {
   GENERAL_ERROR: '❌ Sorry, there was an error processing your message:',
   GENERAL_SUGGESTION: 'Please try again.\n',
   CHAT_START_ERROR: 'Failed to start chat:',
+  FILE_OUTSIDE_WORKSPACE: 'The path is outside the workspace and cannot be accessed.',
+  FILE_NOT_FOUND: 'File or directory not found.',
+  FILE_TOO_LARGE: 'The file is larger than the allowed size limit.',
+  FILE_BINARY: 'The file looks like a binary file and cannot be shown as text.',
+  FILE_PATCH_NO_MATCH: 'The text to replace was not found in the file.',
+  FILE_PATCH_AMBIGUOUS: 'The text to replace appears more than once in the file.',
+  FILE_PATCH_SUGGESTION: 'Include more surrounding lines so the text is unique, or set replaceAll.',
+  FILE_OPERATION_ERROR: 'The file operation failed.',
+  COMMAND_NOT_ALLOWED: 'This command is not on the allowlist.',
+  COMMAND_NOT_ALLOWED_INSTRUCTIONS: 'Add its prefix to ALLOWED_COMMANDS in your .env file to allow it.',
+  COMMAND_SHELL_SYNTAX: 'Shell operators, redirects and variables are not supported. Run one command at a time.',
+  COMMAND_WRITES_FILES: 'Options that write output to a file are not allowed.',
+  COMMAND_PATH_OUTSIDE_WORKSPACE: 'Command arguments cannot point outside the workspace.',
+  PROCESS_NOT_FOUND: 'No process started by the agent has this ID.',
+  PROCESS_LIST_UNSUPPORTED: 'Listing processes needs the ps command, which is not available on this system.',
+  PROCESS_OPERATION_ERROR: 'The process operation failed.',
+  SERVER_NOT_CONFIGURED: 'No dev server with this name is configured.',
+  SERVER_NOT_CONFIGURED_INSTRUCTIONS: 'Add it to dev-servers.json in the workspace root, or point DEV_SERVERS_FILE at your server config.',
+  SERVER_CONFIG_INVALID: 'The dev server config file is not valid.',
+  SERVER_PORT_IN_USE: 'The port of this server is already in use by another process.',
+  SERVER_PORT_IN_USE_SUGGESTION: 'Stop the process using the port (list_processes can help find it), or change the port in the server config.',
+  SERVER_EXITED: 'The server exited before it was ready.',
+  SERVER_NOT_READY: 'The server did not become ready in time and was stopped.',
+  SERVER_STOPPED_WHILE_STARTING: 'The server was stopped before it was ready.',
+  SERVER_OPERATION_ERROR: 'The server operation failed.',
+  SYSTEM_DISK_UNSUPPORTED: 'Disk usage needs the df command, which is not available on this system.',
+  SYSTEM_PORTS_UNSUPPORTED: 'Listing ports needs the ss or lsof command, which is not available on this system.',
+  SYSTEM_INFO_ERROR: 'Unable to read system information.',
 } as const;
 
 // Example queries
@@ -93,6 +176,7 @@ export const EXAMPLE_QUERIES = {
     'What\'s the weather in New York?',
     'How hot is it in Tokyo today?',
     'Is it raining in London?',
+    'Will it rain tomorrow in Bangkok?',
   ],
   SEARCH: [
     'Search for the latest news about AI',
@@ -108,9 +192,13 @@ export const EXAMPLE_QUERIES = {
 
 // Tool descriptions
 export const TOOL_DESCRIPTIONS = {
-  WEATHER: '🌤️ Weather Tool - Get live weather data for any location',
+  WEATHER: '🌤️ Weather Tool - Get live weather data and 5-day forecasts for any location',
   SEARCH: '🔍 Web Search - Search the internet for information',
   DOCS: '📚 Documentation Tool - Get latest docs via Context7 MCP',
+  FILES: '📁 File Tools - List, read, search and edit files in the workspace',
+  PROCESSES: '⚙️ Process Tools - List processes and run allowlisted commands',
+  SERVERS: '🖥️ Dev Server Tools - Start, stop and restart configured dev servers and read their logs',
+  SYSTEM: '📊 System Info Tools - Check CPU, memory, disks, ports and the environment setup',
   CHAT: '💬 General Chat - Have conversations without tools',
 } as const;
 
@@ -12,8 +12,12 @@ export const WeatherToolParametersSchema = z.object({
 
 // Environment variables schema
 export const EnvironmentSchema = z.object({
-  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().min(1, 'OpenAI API key is required'),
   OPENWEATHER_API_KEY: z.string().optional(),
+  CONTEXT7_API_KEY: z.string().optional(),
+  WORKSPACE_ROOT: z.string().optional(),
+  ALLOWED_COMMANDS: z.string().optional(),
+  DEV_SERVERS_FILE: z.string().optional(),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3000'),
 });
@@ -39,6 +43,22 @@ export const MCPServerConfigSchema = z.object({
   fullCommand: z.string(),
 });
 
+// Dev server configuration schema (entries of dev-servers.json)
+export const DevServerConfigSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Use letters, digits, "_" and "-" only'),
+  command: z.string().min(1).describe('Command that starts the server, run without a shell, e.g. "npm run dev"'),
+  cwd: z.string().optional().describe('Working directory, relative to the workspace root'),
+  port: z.number().int().min(1).max(65535),
+  readyUrl: z.string().url().optional().describe('The server is ready once this URL responds'),
+  readyPattern: z.string().optional().describe('The server is ready once a log line matches this regular expression'),
+  readyTimeoutMs: z.number().positive().optional(),
+  env: z.record(z.string()).optional(),
+});
+
+export const DevServersFileSchema = z.object({
+  servers: z.array(DevServerConfigSchema).default([]),
+});
+
 // Application configuration schema
 export const AppConfigSchema = z.object({
   openaiApiKey: z.string().min(1, 'OpenAI API key is required'),
@@ -107,6 +127,82 @@ export const WeatherToolResponseSchema = z.union([
   }),
 ]);
 
+// Forecast API response schema (5 day / 3 hour forecast)
+export const ForecastAPIResponseSchema = z.object({
+  list: z.array(z.object({
+    dt: z.number(),
+    main: z.object({
+      temp: z.number(),
+      temp_min: z.number(),
+      temp_max: z.number(),
+      humidity: z.number(),
+    }),
+    weather: z.array(z.object({
+      main: z.string(),
+      description: z.string(),
+    })).min(1),
+    wind: z.object({
+      speed: z.number(),
+      gust: z.number().optional(),
+    }),
+    pop: z.number().default(0),
+    rain: z.object({ '3h': z.number().optional() }).optional(),
+    snow: z.object({ '3h': z.number().optional() }).optional(),
+  })),
+  city: z.object({
+    name: z.string(),
+    country: z.string(),
+    // Offset from UTC in seconds
+    timezone: z.number(),
+  }),
+});
+
+// Daily summary aggregated from the 3-hour forecast
+export const DailyForecastSchema = z.object({
+  // Local date at the location, YYYY-MM-DD
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weekday: z.string(),
+  minTemperature: z.string(),
+  maxTemperature: z.string(),
+  // Most frequent condition of the day, e.g. "Rain"
+  condition: z.string(),
+  description: z.string(),
+  // Highest chance of precipitation of any period
+  precipitationProbability: z.string(),
+  precipitation: z.string(),
+  windSpeed: z.string(),
+  maxWindSpeed: z.string(),
+  humidity: z.string(),
+  // Number of 3-hour periods the summary covers
+  periods: z.number().int().positive(),
+});
+
+// Formatted forecast data
+export const ForecastDataSchema = z.object({
+  location: z.string(),
+  // Offset from UTC at the location, e.g. "UTC+07:00"
+  timezone: z.string(),
+  // Local time of the first and last period covered
+  from: z.string(),
+  to: z.string(),
+  days: z.array(DailyForecastSchema),
+});
+
+// Forecast tool response schema
+export const ForecastToolResponseSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    data: ForecastDataSchema,
+    summary: z.string(),
+  }),
+  z.object({
+    error: z.string(),
+    instructions: z.string().optional(),
+    suggestion: z.string().optional(),
+    details: z.string().optional(),
+  }),
+]);
+
 // Query classification schema
 export const QueryClassificationSchema = z.object({
   isWeatherQuery: z.boolean(),
@@ -147,10 +243,15 @@ export type EnvironmentVariables = z.infer<typeof EnvironmentSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 export type WeatherConfig = z.infer<typeof WeatherConfigSchema>;
 export type MCPServerConfig = z.infer<typeof MCPServerConfigSchema>;
+export type DevServerConfig = z.infer<typeof DevServerConfigSchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
 export type ConversationContext = z.infer<typeof ConversationContextSchema>;
 export type WeatherAPIResponse = z.infer<typeof WeatherAPIResponseSchema>;
 export type WeatherToolResponse = z.infer<typeof WeatherToolResponseSchema>;
+export type ForecastAPIResponse = z.infer<typeof ForecastAPIResponseSchema>;
+export type DailyForecast = z.infer<typeof DailyForecastSchema>;
+export type ForecastData = z.infer<typeof ForecastDataSchema>;
+export type ForecastToolResponse = z.infer<typeof ForecastToolResponseSchema>;
 export type QueryClassification = z.infer<typeof QueryClassificationSchema>;
 export type ToolExecutionResult = z.infer<typeof ToolExecutionResultSchema>;
 export type RunnerOptions = z.infer<typeof RunnerOptionsSchema>;
@@ -3,27 +3,8 @@
  * Handles server tracking and management functionality
  */
 
-import type { ServerInfo } from '../types';
-
 // Context7 MCP server exports
 export * from './context7-server';
 
-// Placeholder - will be populated by Server Management Agent
-export class ServerManager {
-  private servers: Map<string, ServerInfo> = new Map();
-
-  // Placeholder methods
-  async startServer(name: string, port: number): Promise<void> {
-    // Implementation will be added by Server Management Agent
-  }
-
-  async stopServer(name: string): Promise<void> {
-    // Implementation will be added by Server Management Agent
-  }
-
-  getServers(): ServerInfo[] {
-    return Array.from(this.servers.values());
-  }
-}
-
-export const serverManager = new ServerManager();
\ No newline at end of file
+// Dev server manager exports
+export * from './server-manager';
@@ -0,0 +1,367 @@
+/**
+ * Dev server manager
+ * Starts, stops and monitors local development servers defined in dev-servers.json
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import type { ZodIssue } from 'zod';
+import {
+  ERROR_MESSAGES,
+  FILE_OPERATIONS_CONFIG,
+  SERVER_MANAGEMENT_CONFIG,
+  DevServersFileSchema,
+} from '../config';
+import type { DevServerConfig, ServerInfo } from '../types';
+import { isWindows, killOnExit, terminateProcessGroup, wait } from '../utils/process-group';
+
+/**
+ * Error with a message that is safe to show to the agent
+ */
+export class ServerManagerError extends Error {
+  constructor(message: string, public details?: string, public suggestion?: string) {
+    super(message);
+    this.name = 'ServerManagerError';
+  }
+}
+
+interface ManagedServer {
+  config: DevServerConfig;
+  child: ChildProcess;
+  info: ServerInfo;
+  logs: string[];
+  ready: boolean;
+  stopping: boolean;
+  exited: Promise<void>;
+}
+
+/**
+ * Check whether something is already listening on a port
+ */
+export const isPortInUse = (port: number): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', (error: any) => {
+      if (error.code === 'EADDRINUSE' || error.code === 'EACCES') {
+        resolve(true);
+      } else {
+        reject(error);
+      }
+    });
+    probe.once('listening', () => probe.close(() => resolve(false)));
+    probe.listen(port);
+  });
+};
+
+/**
+ * Check whether a TCP connection to a local port succeeds
+ */
+const acceptsConnections = (port: number): Promise<boolean> => {
+  return new Promise(resolve => {
+    const socket = net.connect({ port, host: 'localhost' });
+    socket.setTimeout(1000);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+};
+
+/**
+ * Check whether a URL answers at all; any HTTP status means the server is up
+ */
+const respondsToRequests = async (url: string): Promise<boolean> => {
+  try {
+    await fetch(url, { signal: AbortSignal.timeout(2000) });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Manages local dev servers: configs come from the dev servers file and from addServer
+ */
+export class ServerManager {
+  private configs: Map<string, DevServerConfig> = new Map();
+  private servers: Map<string, ManagedServer> = new Map();
+
+  constructor(private configFile: string | null = SERVER_MANAGEMENT_CONFIG.CONFIG_FILE) {}
+
+  /**
+   * Add a server config in code; configs in the file with the same name take precedence
+   */
+  addServer(config: DevServerConfig): void {
+    this.configs.set(config.name, config);
+  }
+
+  /**
+   * All known server configs. The file is read on every call, so edits apply without a restart.
+   */
+  getConfigs(): DevServerConfig[] {
+    const configs = new Map(this.configs);
+    if (this.configFile && existsSync(this.configFile)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(readFileSync(this.configFile, 'utf8'));
+      } catch (error: any) {
+        throw new ServerManagerError(ERROR_MESSAGES.SERVER_CONFIG_INVALID, `${this.configFile}: ${error.message}`);
+      }
+      const parsed = DevServersFileSchema.safeParse(json);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue: ZodIssue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new ServerManagerError(ERROR_MESSAGES.SERVER_CONFIG_INVALID, `${this.configFile}: ${issues}`);
+      }
+      for (const config of parsed.data.servers) {
+        configs.set(config.name, config);
+      }
+    }
+    return Array.from(configs.values());
+  }
+
+  /**
+   * Start a configured server and wait until it is ready
+   */
+  async startServer(name: string): Promise<ServerInfo> {
+    const existing = this.servers.get(name);
+    if (existing && (existing.info.status === 'running' || existing.info.status === 'starting')) {
+      return existing.info;
+    }
+
+    const config = this.getConfig(name);
+    if (await isPortInUse(config.port) || await acceptsConnections(config.port)) {
+      throw new ServerManagerError(
+        ERROR_MESSAGES.SERVER_PORT_IN_USE,
+        `Port ${config.port} is needed by "${name}"`,
+        ERROR_MESSAGES.SERVER_PORT_IN_USE_SUGGESTION
+      );
+    }
+
+    const managed = this.spawnServer(config);
+    this.servers.set(name, managed);
+    try {
+      await this.waitUntilReady(managed);
+    } catch (error) {
+      if (!managed.stopping) {
+        await this.stopProcess(managed);
+        managed.info.status = 'error';
+        managed.info.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      }
+    }
+    if (managed.stopping) {
+      // stopServer ran while the server was starting, so it is stopped rather than failed
+      managed.info.status = 'stopped';
+      managed.info.error = undefined;
+      throw new ServerManagerError(ERROR_MESSAGES.SERVER_STOPPED_WHILE_STARTING);
+    }
+    managed.info.status = 'running';
+    return managed.info;
+  }
+
+  /**
+   * Stop a server: SIGTERM first, SIGKILL if it is still running after the grace period
+   */
+  async stopServer(name: string): Promise<ServerInfo> {
+    const managed = this.servers.get(name);
+    if (!managed) {
+      return this.getServerInfo(name);
+    }
+    const wasRunning = managed.info.status === 'running' || managed.info.status === 'starting';
+    await this.stopProcess(managed);
+    if (wasRunning) {
+      managed.info.status = 'stopped';
+      managed.info.error = undefined;
+    }
+    return managed.info;
+  }
+
+  /**
+   * Stop a server if it is running, then start it again
+   */
+  async restartServer(name: string): Promise<ServerInfo> {
+    await this.stopServer(name);
+    return this.startServer(name);
+  }
+
+  /**
+   * Status of one server, also for servers that were never started
+   */
+  getServerInfo(name: string): ServerInfo {
+    const managed = this.servers.get(name);
+    if (managed) {
+      return managed.info;
+    }
+    const config = this.getConfig(name);
+    return { name, port: config.port, status: 'stopped', command: config.command };
+  }
+
+  /**
+   * Status of every configured server
+   */
+  getServers(): ServerInfo[] {
+    const names = new Set([...this.getConfigs().map(config => config.name), ...this.servers.keys()]);
+    return Array.from(names).map(name => this.servers.get(name)?.info ?? this.getServerInfo(name));
+  }
+
+  /**
+   * The last lines a server logged, stdout and stderr combined
+   */
+  tailLogs(name: string, lines: number = SERVER_MANAGEMENT_CONFIG.DEFAULT_TAIL_LINES): string[] {
+    const managed = this.servers.get(name);
+    if (!managed) {
+      this.getConfig(name);
+      return [];
+    }
+    return managed.logs.slice(-Math.min(lines, SERVER_MANAGEMENT_CONFIG.MAX_TAIL_LINES));
+  }
+
+  /**
+   * Stop every server that is still running
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.servers.keys()).map(name => this.stopServer(name)));
+  }
+
+  private getConfig(name: string): DevServerConfig {
+    const config = this.getConfigs().find(candidate => candidate.name === name);
+    if (!config) {
+      const known = this.getConfigs().map(candidate => candidate.name);
+      throw new ServerManagerError(
+        ERROR_MESSAGES.SERVER_NOT_CONFIGURED,
+        known.length > 0 ? `Configured servers: ${known.join(', ')}` : `No servers are configured in ${this.configFile}`,
+        ERROR_MESSAGES.SERVER_NOT_CONFIGURED_INSTRUCTIONS
+      );
+    }
+    return config;
+  }
+
+  private spawnServer(config: DevServerConfig): ManagedServer {
+    const [file, ...args] = config.command.trim().split(/\s+/);
+    const child = spawn(file, args, {
+      cwd: path.resolve(FILE_OPERATIONS_CONFIG.WORKSPACE_ROOT, config.cwd ?? '.'),
+      env: { ...process.env, PORT: String(config.port), ...config.env },
+      // Its own process group, so stopping also stops the children (e.g. npm scripts)
+      detached: !isWindows,
+      shell: false,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    killOnExit(child);
+
+    let resolveExited: () => void;
+    const managed: ManagedServer = {
+      config,
+      child,
+      info: {
+        name: config.name,
+        port: config.port,
+        status: 'starting',
+        command: config.command,
+        pid: child.pid,
+        url: config.readyUrl ?? `http://localhost:${config.port}`,
+        startedAt: new Date().toISOString(),
+      },
+      logs: [],
+      ready: false,
+      stopping: false,
+      exited: new Promise<void>(resolve => {
+        resolveExited = resolve;
+      }),
+    };
+
+    const readyPattern = config.readyPattern ? new RegExp(config.readyPattern) : null;
+    const log = (line: string) => {
+      managed.logs.push(line);
+      if (managed.logs.length > SERVER_MANAGEMENT_CONFIG.MAX_LOG_LINES) {
+        managed.logs.shift();
+      }
+      if (readyPattern?.test(line)) {
+        managed.ready = true;
+      }
+    };
+    const logLines = () => {
+      let partial = '';
+      return (data: Buffer) => {
+        const lines = (partial + data.toString()).split(/\r?\n/);
+        partial = lines.pop() ?? '';
+        lines.forEach(log);
+      };
+    };
+    child.stdout?.on('data', logLines());
+    child.stderr?.on('data', logLines());
+
+    child.on('error', error => {
+      log(`[failed to start: ${error.message}]`);
+      managed.info.status = 'error';
+      managed.info.error = error.message;
+      resolveExited();
+    });
+    child.on('close', code => {
+      managed.info.exitCode = code;
+      if (managed.info.status === 'running' && !managed.stopping) {
+        // The server stopped on its own
+        managed.info.status = code === 0 ? 'stopped' : 'error';
+        managed.info.error = code === 0 ? undefined : `Exited with code ${code}`;
+      }
+      resolveExited();
+    });
+
+    return managed;
+  }
+
+  private async waitUntilReady(managed: ManagedServer): Promise<void> {
+    const { config } = managed;
+    const timeoutMs = config.readyTimeoutMs ?? SERVER_MANAGEMENT_CONFIG.READY_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    let exited = false;
+    managed.exited.then(() => {
+      exited = true;
+    });
+
+    while (Date.now() < deadline) {
+      if (exited) {
+        throw new ServerManagerError(
+          ERROR_MESSAGES.SERVER_EXITED,
+          `Exit code ${managed.child.exitCode ?? 'none'}. Last log lines:\n${managed.logs.slice(-20).join('\n')}`
+        );
+      }
+      if (config.readyPattern) {
+        if (managed.ready) {
+          return;
+        }
+      } else if (config.readyUrl) {
+        if (await respondsToRequests(config.readyUrl)) {
+          return;
+        }
+      } else if (await acceptsConnections(config.port)) {
+        return;
+      }
+      await wait(SERVER_MANAGEMENT_CONFIG.READY_POLL_INTERVAL_MS);
+    }
+
+    throw new ServerManagerError(
+      ERROR_MESSAGES.SERVER_NOT_READY,
+      `Not ready after ${Math.round(timeoutMs / 1000)}s. Last log lines:\n${managed.logs.slice(-20).join('\n')}`
+    );
+  }
+
+  private async stopProcess(managed: ManagedServer): Promise<void> {
+    if (managed.child.exitCode !== null || managed.child.signalCode !== null || managed.info.status === 'stopped') {
+      return;
+    }
+    managed.stopping = true;
+    await terminateProcessGroup(managed.child, managed.exited, SERVER_MANAGEMENT_CONFIG.STOP_GRACE_PERIOD_MS);
+  }
+}
+
+/**
+ * Default dev server manager instance
+ */
+export const serverManager = new ServerManager();
@@ -1,7 +1,463 @@
 /**
  * File operations tools
- * Handles file and directory operations
+ * Handles file and directory operations, confined to a workspace root
  */
 
-// Placeholder - will be populated by Tools Agent
-export const fileOperationsTools = {};
\ No newline at end of file
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tool } from '@openai/agents';
+import { z } from 'zod';
+import { FILE_OPERATIONS_CONFIG, ERROR_MESSAGES, TOOL_NAMES } from '../config';
+import type {
+  DirectoryEntry,
+  FileToolError,
+  FileToolResponse,
+  GrepMatch,
+} from '../types';
+
+/**
+ * Options for the file operations tools
+ */
+export interface FileOperationsOptions {
+  /** Directory the tools are confined to */
+  root?: string;
+  maxReadBytes?: number;
+  maxWriteBytes?: number;
+  maxListEntries?: number;
+  maxSearchResults?: number;
+  maxSearchFileBytes?: number;
+  /** Directory names skipped by glob and grep */
+  ignoredDirectories?: readonly string[];
+}
+
+/**
+ * Thrown when a path resolves outside the workspace root
+ */
+export class WorkspacePathError extends Error {
+  constructor(requestedPath: string) {
+    super(`"${requestedPath}" is outside the workspace`);
+    this.name = 'WorkspacePathError';
+  }
+}
+
+const isInside = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith(`..${path.sep}`) && relative !== '..' && !path.isAbsolute(relative));
+};
+
+/**
+ * Resolve a path against the workspace root.
+ * Symlinks are resolved on the deepest existing part of the path, so a link
+ * inside the workspace cannot lead the tools outside of it.
+ */
+export const resolveWorkspacePath = async (root: string, requestedPath: string): Promise<string> => {
+  const realRoot = await fs.realpath(root);
+  const target = path.resolve(realRoot, requestedPath);
+  if (!isInside(realRoot, target)) {
+    throw new WorkspacePathError(requestedPath);
+  }
+
+  let existing = target;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      existing = await fs.realpath(existing);
+      break;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      // A dangling symlink would be followed when the file is written
+      const isLink = await fs.lstat(existing).then(stats => stats.isSymbolicLink(), () => false);
+      if (isLink) {
+        throw new WorkspacePathError(requestedPath);
+      }
+      missing.unshift(path.basename(existing));
+      existing = path.dirname(existing);
+    }
+  }
+
+  const resolved = path.join(existing, ...missing);
+  if (!isInside(realRoot, resolved)) {
+    throw new WorkspacePathError(requestedPath);
+  }
+  return resolved;
+};
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}`; matches paths with forward slashes.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const toPosix = (relativePath: string): string => relativePath.split(path.sep).join('/');
+
+const looksBinary = (buffer: Buffer): boolean => buffer.subarray(0, 8000).includes(0);
+
+/**
+ * Walk a directory tree without following symlinked directories
+ */
+async function* walkFiles(directory: string, ignored: readonly string[]): AsyncGenerator<string> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!ignored.includes(entry.name)) {
+        yield* walkFiles(fullPath, ignored);
+      }
+    } else if (entry.isFile()) {
+      yield fullPath;
+    }
+  }
+}
+
+const entryType = (entry: { isFile(): boolean; isDirectory(): boolean; isSymbolicLink(): boolean }): DirectoryEntry['type'] => {
+  if (entry.isSymbolicLink()) return 'symlink';
+  if (entry.isDirectory()) return 'directory';
+  if (entry.isFile()) return 'file';
+  return 'other';
+};
+
+const toFileToolError = (error: any): FileToolError => {
+  if (error instanceof WorkspacePathError) {
+    return { error: ERROR_MESSAGES.FILE_OUTSIDE_WORKSPACE, details: error.message };
+  }
+  if (error?.code === 'ENOENT') {
+    return { error: ERROR_MESSAGES.FILE_NOT_FOUND, details: error.message };
+  }
+  return { error: ERROR_MESSAGES.FILE_OPERATION_ERROR, details: error?.message ?? String(error) };
+};
+
+/**
+ * Run a tool body and turn thrown errors into structured responses
+ */
+const runFileOperation = async <T>(operation: () => Promise<FileToolResponse<T>>): Promise<FileToolResponse<T>> => {
+  try {
+    return await operation();
+  } catch (error: any) {
+    console.error('File operation error:', error.message);
+    return toFileToolError(error);
+  }
+};
+
+/**
+ * Create the file operations tools for a workspace root.
+ * Write and patch require approval before they run.
+ */
+export const createFileOperationsTools = (options: FileOperationsOptions = {}) => {
+  const {
+    root = FILE_OPERATIONS_CONFIG.WORKSPACE_ROOT,
+    maxReadBytes = FILE_OPERATIONS_CONFIG.MAX_READ_BYTES,
+    maxWriteBytes = FILE_OPERATIONS_CONFIG.MAX_WRITE_BYTES,
+    maxListEntries = FILE_OPERATIONS_CONFIG.MAX_LIST_ENTRIES,
+    maxSearchResults = FILE_OPERATIONS_CONFIG.MAX_SEARCH_RESULTS,
+    maxSearchFileBytes = FILE_OPERATIONS_CONFIG.MAX_SEARCH_FILE_BYTES,
+    ignoredDirectories = FILE_OPERATIONS_CONFIG.IGNORED_DIRECTORIES,
+  } = options;
+
+  const resolve = (requestedPath: string) => resolveWorkspacePath(root, requestedPath);
+  const display = async (fullPath: string) => toPosix(path.relative(await fs.realpath(root), fullPath)) || '.';
+
+  const listDirectory = tool({
+    name: TOOL_NAMES.LIST_DIRECTORY,
+    description: 'List the files and directories in a workspace directory',
+    parameters: z.object({
+      path: z.string().describe('Directory path relative to the workspace root, e.g. "." or "src"'),
+    }),
+    execute: ({ path: requestedPath }) => runFileOperation<{ path: string; entries: DirectoryEntry[]; truncated: boolean }>(async () => {
+      const directory = await resolve(requestedPath);
+      const dirents = await fs.readdir(directory, { withFileTypes: true });
+      const entries: DirectoryEntry[] = [];
+      for (const dirent of dirents.slice(0, maxListEntries)) {
+        const type = entryType(dirent);
+        const size = type === 'file' ? (await fs.stat(path.join(directory, dirent.name))).size : undefined;
+        entries.push({ name: dirent.name, type, ...(size !== undefined ? { size } : {}) });
+      }
+      const shownPath = await display(directory);
+      return {
+        success: true,
+        data: { path: shownPath, entries, truncated: dirents.length > maxListEntries },
+        summary: `${shownPath} has ${dirents.length} entries${dirents.length > maxListEntries ? ` (showing ${maxListEntries})` : ''}.`,
+      };
+    }),
+  });
+
+  const readFile = tool({
+    name: TOOL_NAMES.READ_FILE,
+    description: 'Read a text file in the workspace, optionally only a range of lines or bytes',
+    parameters: z.object({
+      path: z.string().describe('File path relative to the workspace root'),
+      startLine: z.number().int().min(1).nullable().describe('First line to return (1-based), or null to start at the beginning'),
+      endLine: z.number().int().min(1).nullable().describe('Last line to return (inclusive), or null to read to the end'),
+      byteOffset: z.number().int().min(0).nullable().describe('Byte offset to start reading at, or null. Ignored when a line range is given'),
+      byteLength: z.number().int().min(1).nullable().describe('Number of bytes to read, or null for as many as allowed'),
+    }),
+    execute: ({ path: requestedPath, startLine, endLine, byteOffset, byteLength }) => runFileOperation<{
+      path: string;
+      content: string;
+      size: number;
+      range: string;
+      truncated: boolean;
+    }>(async () => {
+      const file = await resolve(requestedPath);
+      const { size } = await fs.stat(file);
+      const shownPath = await display(file);
+
+      if (startLine !== null || endLine !== null) {
+        if (size > maxSearchFileBytes) {
+          return {
+            error: ERROR_MESSAGES.FILE_TOO_LARGE,
+            suggestion: 'Read a byte range instead of a line range.',
+            details: `${size} bytes (limit ${maxSearchFileBytes})`,
+          };
+        }
+        const buffer = await fs.readFile(file);
+        if (looksBinary(buffer)) {
+          return { error: ERROR_MESSAGES.FILE_BINARY, details: shownPath };
+        }
+        const lines = buffer.toString('utf8').split('\n');
+        const first = startLine ?? 1;
+        const last = Math.min(endLine ?? lines.length, lines.length);
+        let content = lines.slice(first - 1, last).join('\n');
+        const truncated = Buffer.byteLength(content) > maxReadBytes;
+        if (truncated) {
+          content = Buffer.from(content).subarray(0, maxReadBytes).toString('utf8');
+        }
+        return {
+          success: true,
+          data: { path: shownPath, content, size, range: `lines ${first}-${last} of ${lines.length}`, truncated },
+          summary: `Read lines ${first}-${last} of ${shownPath}${truncated ? ' (truncated)' : ''}.`,
+        };
+      }
+
+      const offset = byteOffset ?? 0;
+      const length = Math.min(byteLength ?? maxReadBytes, maxReadBytes, Math.max(size - offset, 0));
+      const handle = await fs.open(file, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        const chunk = buffer.subarray(0, bytesRead);
+        if (looksBinary(chunk)) {
+          return { error: ERROR_MESSAGES.FILE_BINARY, details: shownPath };
+        }
+        const truncated = offset + bytesRead < size && (byteLength === null || byteLength > bytesRead);
+        return {
+          success: true,
+          data: {
+            path: shownPath,
+            content: chunk.toString('utf8'),
+            size,
+            range: `bytes ${offset}-${offset + bytesRead} of ${size}`,
+            truncated,
+          },
+          summary: `Read ${bytesRead} bytes of ${shownPath}${truncated ? ` (limit ${maxReadBytes} bytes, file is ${size})` : ''}.`,
+        };
+      } finally {
+        await handle.close();
+      }
+    }),
+  });
+
+  const globFiles = tool({
+    name: TOOL_NAMES.GLOB_FILES,
+    description: 'Find workspace files whose path matches a glob pattern, e.g. "src/**/*.ts"',
+    parameters: z.object({
+      pattern: z.string().describe('Glob pattern relative to the search directory; supports **, *, ? and {a,b}'),
+      path: z.string().describe('Directory to search in, relative to the workspace root, e.g. "."'),
+    }),
+    execute: ({ pattern, path: requestedPath }) => runFileOperation<{ matches: string[]; truncated: boolean }>(async () => {
+      const directory = await resolve(requestedPath);
+      const matcher = globToRegExp(pattern);
+      const matches: string[] = [];
+      let truncated = false;
+      for await (const file of walkFiles(directory, ignoredDirectories)) {
+        if (matcher.test(toPosix(path.relative(directory, file)))) {
+          if (matches.length === maxSearchResults) {
+            truncated = true;
+            break;
+          }
+          matches.push(await display(file));
+        }
+      }
+      return {
+        success: true,
+        data: { matches, truncated },
+        summary: `Found ${matches.length}${truncated ? '+' : ''} files matching ${pattern}.`,
+      };
+    }),
+  });
+
+  const grepFiles = tool({
+    name: TOOL_NAMES.GREP_FILES,
+    description: 'Search the text of workspace files with a regular expression',
+    parameters: z.object({
+      pattern: z.string().describe('JavaScript regular expression to search for'),
+      path: z.string().describe('Directory or file to search, relative to the workspace root, e.g. "."'),
+      include: z.string().nullable().describe('Glob pattern the file paths must match, e.g. "**/*.ts", or null for all files'),
+      ignoreCase: z.boolean().describe('Whether the search ignores case'),
+    }),
+    execute: ({ pattern, path: requestedPath, include, ignoreCase }) => runFileOperation<{ matches: GrepMatch[]; truncated: boolean }>(async () => {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, ignoreCase ? 'i' : '');
+      } catch (error: any) {
+        return { error: 'Invalid regular expression.', details: error.message };
+      }
+      const target = await resolve(requestedPath);
+      const includeMatcher = include ? globToRegExp(include) : null;
+      const isDirectory = (await fs.stat(target)).isDirectory();
+      const files = isDirectory ? walkFiles(target, ignoredDirectories) : (async function* () { yield target; })();
+
+      const matches: GrepMatch[] = [];
+      let truncated = false;
+      search: for await (const file of files) {
+        if (includeMatcher && !includeMatcher.test(toPosix(path.relative(isDirectory ? target : path.dirname(target), file)))) {
+          continue;
+        }
+        if ((await fs.stat(file)).size > maxSearchFileBytes) {
+          continue;
+        }
+        const buffer = await fs.readFile(file);
+        if (looksBinary(buffer)) {
+          continue;
+        }
+        const lines = buffer.toString('utf8').split('\n');
+        for (let index = 0; index < lines.length; index++) {
+          if (regex.test(lines[index])) {
+            if (matches.length === maxSearchResults) {
+              truncated = true;
+              break search;
+            }
+            matches.push({ path: await display(file), line: index + 1, text: lines[index].slice(0, 500) });
+          }
+        }
+      }
+      return {
+        success: true,
+        data: { matches, truncated },
+        summary: `Found ${matches.length}${truncated ? '+' : ''} matching lines for /${pattern}/.`,
+      };
+    }),
+  });
+
+  const writeFile = tool({
+    name: TOOL_NAMES.WRITE_FILE,
+    description: 'Create or overwrite a text file in the workspace. Requires user approval.',
+    parameters: z.object({
+      path: z.string().describe('File path relative to the workspace root'),
+      content: z.string().describe('The complete new content of the file'),
+      createDirectories: z.boolean().describe('Whether to create missing parent directories'),
+    }),
+    needsApproval: true,
+    execute: ({ path: requestedPath, content, createDirectories }) => runFileOperation<{ path: string; bytes: number; created: boolean }>(async () => {
+      const bytes = Buffer.byteLength(content);
+      if (bytes > maxWriteBytes) {
+        return { error: ERROR_MESSAGES.FILE_TOO_LARGE, details: `${bytes} bytes (limit ${maxWriteBytes})` };
+      }
+      const file = await resolve(requestedPath);
+      const created = await fs.access(file).then(() => false, () => true);
+      if (createDirectories) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+      }
+      await fs.writeFile(file, content, 'utf8');
+      const shownPath = await display(file);
+      return {
+        success: true,
+        data: { path: shownPath, bytes, created },
+        summary: `${created ? 'Created' : 'Overwrote'} ${shownPath} (${bytes} bytes).`,
+      };
+    }),
+  });
+
+  const patchFile = tool({
+    name: TOOL_NAMES.PATCH_FILE,
+    description: 'Replace exact text in a workspace file. Requires user approval.',
+    parameters: z.object({
+      path: z.string().describe('File path relative to the workspace root'),
+      oldText: z.string().min(1).describe('The exact text to replace, including whitespace'),
+      newText: z.string().describe('The text to put in its place'),
+      replaceAll: z.boolean().describe('Replace every occurrence instead of requiring exactly one'),
+    }),
+    needsApproval: true,
+    execute: ({ path: requestedPath, oldText, newText, replaceAll }) => runFileOperation<{ path: string; replacements: number; bytes: number }>(async () => {
+      const file = await resolve(requestedPath);
+      if ((await fs.stat(file)).size > maxWriteBytes) {
+        return { error: ERROR_MESSAGES.FILE_TOO_LARGE, details: `limit ${maxWriteBytes} bytes` };
+      }
+      const original = await fs.readFile(file, 'utf8');
+      const occurrences = original.split(oldText).length - 1;
+      if (occurrences === 0) {
+        return { error: ERROR_MESSAGES.FILE_PATCH_NO_MATCH, suggestion: 'Read the file first and copy the text exactly.' };
+      }
+      if (occurrences > 1 && !replaceAll) {
+        return {
+          error: ERROR_MESSAGES.FILE_PATCH_AMBIGUOUS,
+          suggestion: ERROR_MESSAGES.FILE_PATCH_SUGGESTION,
+          details: `${occurrences} occurrences`,
+        };
+      }
+      const updated = replaceAll ? original.split(oldText).join(newText) : original.replace(oldText, () => newText);
+      const bytes = Buffer.byteLength(updated);
+      if (bytes > maxWriteBytes) {
+        return { error: ERROR_MESSAGES.FILE_TOO_LARGE, details: `${bytes} bytes (limit ${maxWriteBytes})` };
+      }
+      await fs.writeFile(file, updated, 'utf8');
+      const shownPath = await display(file);
+      return {
+        success: true,
+        data: { path: shownPath, replacements: occurrences, bytes },
+        summary: `Replaced ${occurrences} occurrence${occurrences === 1 ? '' : 's'} in ${shownPath}.`,
+      };
+    }),
+  });
+
+  return { listDirectory, readFile, globFiles, grepFiles, writeFile, patchFile };
+};
+
+/**
+ * File operations tools for the configured workspace root
+ */
+export const fileOperationsTools = createFileOperationsTools();
+
+/**
+ * Names of all file operations tools, as registered in the tool registry
+ */
+export const FILE_OPERATION_TOOL_NAMES: readonly string[] = [
+  TOOL_NAMES.LIST_DIRECTORY,
+  TOOL_NAMES.READ_FILE,
+  TOOL_NAMES.GLOB_FILES,
+  TOOL_NAMES.GREP_FILES,
+  TOOL_NAMES.WRITE_FILE,
+  TOOL_NAMES.PATCH_FILE,
+];
+
+/**
+ * Names of the file tools that change files and need approval
+ */
+export const FILE_WRITE_TOOL_NAMES: readonly string[] = [TOOL_NAMES.WRITE_FILE, TOOL_NAMES.PATCH_FILE];
@@ -0,0 +1,232 @@
+/**
+ * Forecast tool implementation
+ * Provides multi-day forecasts for any location using the OpenWeatherMap 5 day / 3 hour forecast API
+ */
+
+import axios from 'axios';
+import { tool } from '@openai/agents';
+import { z } from 'zod';
+import {
+  WEATHER_CONFIG,
+  ERROR_MESSAGES,
+  API_ENDPOINTS,
+  TOOL_NAMES,
+  ForecastAPIResponseSchema,
+  ForecastToolResponseSchema,
+} from '../config';
+import { formatTemperature } from './weather-tool';
+import type { DailyForecast, ForecastAPIResponse, ForecastData, ForecastToolResponse } from '../types';
+
+type Units = 'metric' | 'imperial' | 'kelvin';
+
+type ForecastPeriod = ForecastAPIResponse['list'][number];
+
+const PERIOD_SECONDS = 3 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const round = (value: number, digits: number = 1): number => Number(value.toFixed(digits));
+
+/**
+ * Local date (YYYY-MM-DD) at a location, from a UNIX time and the location's UTC offset
+ */
+const toLocalDate = (unixSeconds: number, offsetSeconds: number): string => {
+  return new Date((unixSeconds + offsetSeconds) * 1000).toISOString().slice(0, 10);
+};
+
+const toLocalTime = (unixSeconds: number, offsetSeconds: number): string => {
+  return new Date((unixSeconds + offsetSeconds) * 1000).toISOString().slice(0, 16).replace('T', ' ');
+};
+
+const formatUtcOffset = (offsetSeconds: number): string => {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const minutes = Math.abs(offsetSeconds) / 60;
+  return `UTC${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const formatTemp = (temp: number, units: Units): string => {
+  if (units === 'imperial') {
+    return `${Math.round(temp)}°F`;
+  } else if (units === 'kelvin') {
+    return `${Math.round(temp)}K`;
+  }
+  return formatTemperature(temp);
+};
+
+const formatWind = (speed: number, units: Units): string => {
+  return units === 'imperial' ? `${round(speed)} mph` : `${round(speed)} m/s`;
+};
+
+/**
+ * The most frequent value; ties go to the value seen first
+ */
+const mostFrequent = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+/**
+ * Summarize the 3-hour periods of one local day
+ */
+const summarizeDay = (date: string, periods: ForecastPeriod[], units: Units): DailyForecast => {
+  const condition = mostFrequent(periods.map(period => period.weather[0].main));
+  const description = mostFrequent(
+    periods.filter(period => period.weather[0].main === condition).map(period => period.weather[0].description)
+  );
+  const precipitation = periods.reduce((total, period) => total + (period.rain?.['3h'] ?? 0) + (period.snow?.['3h'] ?? 0), 0);
+  const averageWind = periods.reduce((total, period) => total + period.wind.speed, 0) / periods.length;
+  const averageHumidity = periods.reduce((total, period) => total + period.main.humidity, 0) / periods.length;
+
+  return {
+    date,
+    weekday: new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+    minTemperature: formatTemp(Math.min(...periods.map(period => period.main.temp_min)), units),
+    maxTemperature: formatTemp(Math.max(...periods.map(period => period.main.temp_max)), units),
+    condition,
+    description,
+    precipitationProbability: `${Math.round(Math.max(...periods.map(period => period.pop)) * 100)}%`,
+    precipitation: `${round(precipitation)} mm`,
+    windSpeed: formatWind(averageWind, units),
+    maxWindSpeed: formatWind(Math.max(...periods.map(period => period.wind.gust ?? period.wind.speed)), units),
+    humidity: `${Math.round(averageHumidity)}%`,
+    periods: periods.length,
+  };
+};
+
+/**
+ * Aggregate a 5 day / 3 hour forecast into daily summaries.
+ * `date` keeps one local day ("today", "tomorrow" or YYYY-MM-DD); `hours` keeps the next hours only.
+ */
+export const summarizeForecast = (
+  forecast: ForecastAPIResponse,
+  options: { date?: string | null; hours?: number | null; units?: Units; now?: Date } = {}
+): ForecastData | null => {
+  const { date, hours, units = 'metric', now = new Date() } = options;
+  const offset = forecast.city.timezone;
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+
+  let targetDate = date;
+  if (date === 'today' || date === 'tomorrow') {
+    targetDate = toLocalDate(nowSeconds + (date === 'tomorrow' ? DAY_SECONDS : 0), offset);
+  }
+
+  const periods = forecast.list
+    // Keep the period that is in progress
+    .filter((period: ForecastPeriod) => period.dt + PERIOD_SECONDS > nowSeconds)
+    .filter((period: ForecastPeriod) => !hours || period.dt <= nowSeconds + hours * 60 * 60)
+    .filter((period: ForecastPeriod) => !targetDate || toLocalDate(period.dt, offset) === targetDate);
+  if (periods.length === 0) {
+    return null;
+  }
+
+  const days = new Map<string, ForecastPeriod[]>();
+  for (const period of periods) {
+    const day = toLocalDate(period.dt, offset);
+    days.set(day, [...(days.get(day) ?? []), period]);
+  }
+
+  return {
+    location: `${forecast.city.name}, ${forecast.city.country}`,
+    timezone: formatUtcOffset(offset),
+    from: toLocalTime(periods[0].dt, offset),
+    to: toLocalTime(periods[periods.length - 1].dt + PERIOD_SECONDS, offset),
+    days: Array.from(days.entries()).map(([day, dayPeriods]) => summarizeDay(day, dayPeriods, units)),
+  };
+};
+
+const describeDay = (day: DailyForecast): string => {
+  return `${day.weekday} ${day.date}: ${day.minTemperature} to ${day.maxTemperature}, ${day.description}, `
+    + `${day.precipitationProbability} chance of precipitation (${day.precipitation}), wind ${day.windSpeed}`;
+};
+
+/**
+ * Forecast tool factory for creating customized forecast tools
+ */
+export const createForecastTool = (options?: {
+  name?: string;
+  description?: string;
+  units?: Units;
+}) => {
+  const {
+    name = TOOL_NAMES.FORECAST,
+    description = `Get the weather forecast for the next ${WEATHER_CONFIG.FORECAST_DAYS} days for a specific city or location, as daily summaries with temperatures, chance of rain and wind`,
+    units = WEATHER_CONFIG.DEFAULT_UNITS,
+  } = options || {};
+
+  return tool({
+    name,
+    description,
+    parameters: z.object({
+      location: z.string().describe('The city or location to get the forecast for (e.g., "Bangkok", "London, UK", "Tokyo, Japan")'),
+      date: z.string().regex(/^(today|tomorrow|\d{4}-\d{2}-\d{2})$/).nullable().describe('Only this local day: "today", "tomorrow" or a date like "2025-01-31", or null for all days'),
+      hours: z.number().int().min(1).max(WEATHER_CONFIG.FORECAST_DAYS * 24).nullable().describe('Only the next this many hours, e.g. 6, or null for no limit'),
+    }),
+    execute: async ({ location, date, hours }): Promise<ForecastToolResponse> => {
+      try {
+        if (!WEATHER_CONFIG.API_KEY) {
+          return {
+            error: ERROR_MESSAGES.WEATHER_API_KEY_MISSING,
+            instructions: ERROR_MESSAGES.WEATHER_API_KEY_INSTRUCTIONS
+          };
+        }
+
+        console.log(`🌤️ Fetching forecast for: ${location}`);
+
+        const forecastResponse = await axios.get(
+          `${WEATHER_CONFIG.BASE_URL}${API_ENDPOINTS.WEATHER.FORECAST}?q=${encodeURIComponent(location)}&appid=${WEATHER_CONFIG.API_KEY}&units=${units}`
+        );
+
+        const parsed = ForecastAPIResponseSchema.safeParse(forecastResponse.data);
+        if (!parsed.success) {
+          return {
+            error: ERROR_MESSAGES.WEATHER_RESPONSE_INVALID,
+            details: parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+          };
+        }
+
+        const forecast = summarizeForecast(parsed.data, { date, hours, units });
+        if (!forecast) {
+          return {
+            error: ERROR_MESSAGES.FORECAST_OUT_OF_RANGE,
+            suggestion: ERROR_MESSAGES.FORECAST_RANGE_SUGGESTION,
+            details: [date && `date: ${date}`, hours && `hours: ${hours}`].filter(Boolean).join(', ') || undefined
+          };
+        }
+
+        return ForecastToolResponseSchema.parse({
+          success: true,
+          data: forecast,
+          summary: `Forecast for ${forecast.location}: ${forecast.days.map(describeDay).join('; ')}.`
+        });
+
+      } catch (error: any) {
+        console.error('Forecast API error:', error.response?.data || error.message);
+
+        if (error.response?.status === 401) {
+          return {
+            error: ERROR_MESSAGES.WEATHER_API_INVALID,
+            instructions: ERROR_MESSAGES.WEATHER_API_INVALID_INSTRUCTIONS
+          };
+        } else if (error.response?.status === 404) {
+          return {
+            error: `${ERROR_MESSAGES.WEATHER_LOCATION_NOT_FOUND.replace('Location', `Location "${location}"`)}`,
+            suggestion: ERROR_MESSAGES.WEATHER_LOCATION_SUGGESTION
+          };
+        } else {
+          return {
+            error: ERROR_MESSAGES.WEATHER_FETCH_ERROR,
+            details: error.message
+          };
+        }
+      }
+    }
+  });
+};
+
+/**
+ * Forecast tool for getting daily forecast summaries
+ * Uses the OpenWeatherMap 5 day / 3 hour forecast API
+ */
+export const forecastTool = createForecastTool();
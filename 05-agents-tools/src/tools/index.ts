@@ -5,6 +5,7 @@
 
 // Weather tool exports
 export * from './weather-tool';
+export * from './forecast-tool';
 
 // Tool factory exports
 export * from './tool-factory';
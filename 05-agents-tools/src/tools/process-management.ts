@@ -3,5 +3,447 @@
  * Handles process operations and monitoring
  */
 
-// Placeholder - will be populated by Tools Agent
-export const processManagementTools = {};
\ No newline at end of file
+import { spawn, execFile, type ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import { tool } from '@openai/agents';
+import { z } from 'zod';
+import { FILE_OPERATIONS_CONFIG, PROCESS_CONFIG, ERROR_MESSAGES, TOOL_NAMES } from '../config';
+import { isWindows, killOnExit, terminateProcessGroup, wait } from '../utils/process-group';
+import { resolveWorkspacePath, WorkspacePathError } from './file-operations';
+import type {
+  ManagedProcessStatus,
+  ProcessInfo,
+  ProcessOutputChunk,
+  ProcessToolError,
+  ProcessToolResponse,
+} from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Options for the process management tools
+ */
+export interface ProcessManagementOptions {
+  /** Command prefixes the agent may run, e.g. "npm test" */
+  allowedCommands?: readonly string[];
+  /** Working directory for commands */
+  cwd?: string;
+  defaultTimeoutMs?: number;
+  maxTimeoutMs?: number;
+  /** How long run_command waits for output before returning */
+  initialWaitMs?: number;
+  outputChunkChars?: number;
+  tracker?: ProcessTracker;
+}
+
+interface ManagedProcess {
+  id: string;
+  command: string;
+  child: ChildProcess;
+  status: ManagedProcessStatus;
+  exitCode: number | null;
+  /** Buffered output; older output is dropped once the buffer is full */
+  output: string;
+  droppedChars: number;
+  readOffset: number;
+  exited: Promise<void>;
+}
+
+/**
+ * Keeps track of the processes the agent started, with their output
+ */
+export class ProcessTracker {
+  private processes: Map<string, ManagedProcess> = new Map();
+  private nextId = 1;
+
+  constructor(private maxBufferChars: number = PROCESS_CONFIG.MAX_OUTPUT_BUFFER_CHARS) {}
+
+  /**
+   * Start a command without a shell. Output of stdout and stderr is interleaved.
+   */
+  start(args: string[], options: { cwd: string; timeoutMs: number }): ManagedProcess {
+    const [file, ...rest] = args;
+    const child = spawn(file, rest, {
+      cwd: options.cwd,
+      // Its own process group, so terminating also stops the children (e.g. npm scripts)
+      detached: !isWindows,
+      shell: false,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    killOnExit(child);
+
+    let resolveExited: () => void;
+    const managed: ManagedProcess = {
+      id: `proc-${this.nextId++}`,
+      command: args.join(' '),
+      child,
+      status: 'running',
+      exitCode: null,
+      output: '',
+      droppedChars: 0,
+      readOffset: 0,
+      exited: new Promise<void>(resolve => {
+        resolveExited = resolve;
+      }),
+    };
+
+    const append = (data: Buffer | string) => {
+      managed.output += data.toString();
+      const overflow = managed.output.length - this.maxBufferChars;
+      if (overflow > 0) {
+        managed.output = managed.output.slice(overflow);
+        managed.droppedChars += overflow;
+      }
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const timeout = setTimeout(() => {
+      if (managed.status === 'running') {
+        managed.status = 'timed_out';
+        append(`\n[timed out after ${Math.round(options.timeoutMs / 1000)}s]\n`);
+        // A throw inside a timer would take the agent down, so signal errors only end up in the output
+        this.stop(managed).catch((error: any) => {
+          append(`\n[could not stop: ${error.message}]\n`);
+        });
+      }
+    }, options.timeoutMs);
+
+    child.on('error', error => {
+      managed.status = 'failed';
+      append(`\n[failed to start: ${error.message}]\n`);
+      clearTimeout(timeout);
+      resolveExited();
+    });
+    child.on('close', code => {
+      if (managed.status === 'running') {
+        managed.status = 'exited';
+      }
+      managed.exitCode = code;
+      clearTimeout(timeout);
+      resolveExited();
+    });
+
+    this.processes.set(managed.id, managed);
+    return managed;
+  }
+
+  /**
+   * Get a process started by the agent
+   */
+  get(id: string): ManagedProcess | undefined {
+    return this.processes.get(id);
+  }
+
+  /**
+   * Check whether the agent started the process with this PID
+   */
+  isTracked(pid: number): boolean {
+    return Array.from(this.processes.values()).some(managed => managed.child.pid === pid);
+  }
+
+  /**
+   * Wait until the process exits or the time is up
+   */
+  async waitForExit(managed: ManagedProcess, ms: number): Promise<void> {
+    await Promise.race([managed.exited, wait(ms)]);
+  }
+
+  /**
+   * Read the next chunk of output since the last read
+   */
+  read(managed: ManagedProcess, maxChars: number): ProcessOutputChunk {
+    const skippedChars = Math.max(managed.droppedChars - managed.readOffset, 0);
+    const start = Math.max(managed.readOffset, managed.droppedChars);
+    const output = managed.output.slice(start - managed.droppedChars, start - managed.droppedChars + maxChars);
+    managed.readOffset = start + output.length;
+    return {
+      processId: managed.id,
+      pid: managed.child.pid,
+      command: managed.command,
+      status: managed.status,
+      exitCode: managed.exitCode,
+      output,
+      skippedChars,
+      remainingChars: managed.droppedChars + managed.output.length - managed.readOffset,
+    };
+  }
+
+  /**
+   * Stop a process: SIGTERM first, SIGKILL if it is still running after the grace period
+   */
+  async terminate(managed: ManagedProcess): Promise<void> {
+    if (managed.status !== 'running' && managed.status !== 'timed_out') {
+      return;
+    }
+    if (managed.status === 'running') {
+      managed.status = 'terminated';
+    }
+    await this.stop(managed);
+  }
+
+  /**
+   * Stop every process that is still running
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.processes.values()).map(managed => this.terminate(managed)));
+  }
+
+  private stop(managed: ManagedProcess): Promise<void> {
+    return terminateProcessGroup(managed.child, managed.exited, PROCESS_CONFIG.KILL_GRACE_PERIOD_MS, () => managed.exitCode === null);
+  }
+}
+
+/**
+ * Default process tracker instance
+ */
+export const processTracker = new ProcessTracker();
+
+/**
+ * Split a command into arguments, refusing shell syntax
+ */
+export const parseCommand = (command: string): string[] | null => {
+  if (/[;&|<>`$(){}\\*?~!]/.test(command) || /["'\n]/.test(command)) {
+    return null;
+  }
+  return command.trim().split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Find the allowed command prefix the arguments start with
+ */
+const findAllowedPrefix = (args: string[], allowedCommands: readonly string[]): string[] | undefined => {
+  return allowedCommands
+    .map(allowed => allowed.trim().split(/\s+/).filter(Boolean))
+    .find(prefix => prefix.length > 0 && prefix.every((part, index) => args[index] === part));
+};
+
+/**
+ * Check whether the arguments start with one of the allowed command prefixes
+ */
+export const isCommandAllowed = (args: string[], allowedCommands: readonly string[]): boolean => {
+  return findAllowedPrefix(args, allowedCommands) !== undefined;
+};
+
+const writesFiles = (arg: string): boolean => {
+  return PROCESS_CONFIG.FILE_WRITING_OPTIONS.some((option: string) => option.startsWith('--')
+    ? arg === option || arg.startsWith(`${option}=`)
+    // Short options also take their value attached, e.g. "-ofile"
+    : !arg.startsWith('--') && arg.startsWith(option));
+};
+
+/**
+ * Check the arguments after the allowed prefix. A prefix allows extra arguments
+ * (e.g. "git log -5"), but not options that write files, and every argument that
+ * may be a path, including option values, has to resolve inside the workspace.
+ * Returns the error for the first argument that is refused.
+ */
+export const checkCommandArguments = async (
+  args: string[],
+  allowedCommands: readonly string[],
+  root: string,
+): Promise<ProcessToolError | null> => {
+  const prefix = findAllowedPrefix(args, allowedCommands) ?? [];
+  for (const arg of args.slice(prefix.length)) {
+    if (writesFiles(arg)) {
+      return { error: ERROR_MESSAGES.COMMAND_WRITES_FILES, details: arg };
+    }
+    const value = arg.startsWith('-') ? arg.split('=').slice(1).join('=') : arg;
+    if (!value) {
+      continue;
+    }
+    try {
+      await resolveWorkspacePath(root, value);
+    } catch (error) {
+      if (error instanceof WorkspacePathError) {
+        return { error: ERROR_MESSAGES.COMMAND_PATH_OUTSIDE_WORKSPACE, details: arg };
+      }
+      throw error;
+    }
+  }
+  return null;
+};
+
+/**
+ * List running processes with ps (Linux and macOS)
+ */
+export const listProcesses = async (): Promise<Omit<ProcessInfo, 'startedByAgent'>[]> => {
+  const { stdout } = await execFileAsync('ps', ['-axww', '-o', 'pid=,pcpu=,pmem=,args='], {
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout
+    .split('\n')
+    .map(line => line.trim().match(/^(\d+)\s+([\d.]+)\s+([\d.]+)\s+(.*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, pid, cpu, memory, args]) => ({
+      pid: Number(pid),
+      command: args.split(/\s+/)[0].split('/').pop() || args,
+      args: args.slice(0, 200),
+      cpuPercent: Number(cpu),
+      memoryPercent: Number(memory),
+    }));
+};
+
+const toProcessToolError = (error: any): ProcessToolError => {
+  if (error?.code === 'ENOENT' && error?.path === 'ps') {
+    return { error: ERROR_MESSAGES.PROCESS_LIST_UNSUPPORTED };
+  }
+  return { error: ERROR_MESSAGES.PROCESS_OPERATION_ERROR, details: error?.message ?? String(error) };
+};
+
+/**
+ * Run a tool body and turn thrown errors into structured responses
+ */
+const runProcessOperation = async <T>(operation: () => Promise<ProcessToolResponse<T>>): Promise<ProcessToolResponse<T>> => {
+  try {
+    return await operation();
+  } catch (error: any) {
+    console.error('Process operation error:', error.message);
+    return toProcessToolError(error);
+  }
+};
+
+const describeChunk = (chunk: ProcessOutputChunk): string => {
+  const state = chunk.status === 'running'
+    ? `is still running; call ${TOOL_NAMES.READ_PROCESS_OUTPUT} with processId "${chunk.processId}" for more output`
+    : `${chunk.status.replace('_', ' ')}${chunk.exitCode !== null ? ` with exit code ${chunk.exitCode}` : ''}`;
+  const more = chunk.remainingChars > 0 ? ` ${chunk.remainingChars} more characters of output are waiting.` : '';
+  return `\`${chunk.command}\` ${state}.${more}`;
+};
+
+/**
+ * Create the process management tools.
+ * Running and terminating commands require approval before they happen.
+ */
+export const createProcessManagementTools = (options: ProcessManagementOptions = {}) => {
+  const {
+    allowedCommands = PROCESS_CONFIG.ALLOWED_COMMANDS,
+    cwd = FILE_OPERATIONS_CONFIG.WORKSPACE_ROOT,
+    defaultTimeoutMs = PROCESS_CONFIG.DEFAULT_TIMEOUT_MS,
+    maxTimeoutMs = PROCESS_CONFIG.MAX_TIMEOUT_MS,
+    initialWaitMs = PROCESS_CONFIG.INITIAL_WAIT_MS,
+    outputChunkChars = PROCESS_CONFIG.OUTPUT_CHUNK_CHARS,
+    tracker = processTracker,
+  } = options;
+
+  const listProcessesTool = tool({
+    name: TOOL_NAMES.LIST_PROCESSES,
+    description: 'List running processes with their PID, command, CPU and memory use, busiest first',
+    parameters: z.object({
+      filter: z.string().nullable().describe('Only show processes whose command line contains this text, or null for all'),
+      limit: z.number().int().min(1).max(PROCESS_CONFIG.MAX_LISTED_PROCESSES).nullable().describe('Maximum number of processes to return, or null for 20'),
+    }),
+    execute: ({ filter, limit }) => runProcessOperation<{ processes: ProcessInfo[]; total: number }>(async () => {
+      const needle = filter?.toLowerCase();
+      const matching = (await listProcesses())
+        .filter(info => !needle || info.args.toLowerCase().includes(needle))
+        .sort((a, b) => b.cpuPercent - a.cpuPercent);
+      const processes = matching
+        .slice(0, limit ?? 20)
+        .map(info => ({ ...info, startedByAgent: tracker.isTracked(info.pid) }));
+      return {
+        success: true,
+        data: { processes, total: matching.length },
+        summary: `Showing ${processes.length} of ${matching.length} processes${filter ? ` matching "${filter}"` : ''}.`,
+      };
+    }),
+  });
+
+  const runCommand = tool({
+    name: TOOL_NAMES.RUN_COMMAND,
+    description: `Run an allowlisted command in the workspace and return its first chunk of output. Allowed: ${allowedCommands.join(', ')}. Requires user approval.`,
+    parameters: z.object({
+      command: z.string().describe('The command to run, e.g. "npm test". No shell operators, pipes or redirects'),
+      timeoutSeconds: z.number().int().min(1).nullable().describe('Stop the command after this many seconds, or null for the default'),
+    }),
+    needsApproval: true,
+    execute: ({ command, timeoutSeconds }) => runProcessOperation<ProcessOutputChunk>(async () => {
+      const args = parseCommand(command);
+      if (!args || args.length === 0) {
+        return { error: ERROR_MESSAGES.COMMAND_SHELL_SYNTAX, details: command };
+      }
+      if (!isCommandAllowed(args, allowedCommands)) {
+        return {
+          error: ERROR_MESSAGES.COMMAND_NOT_ALLOWED,
+          instructions: ERROR_MESSAGES.COMMAND_NOT_ALLOWED_INSTRUCTIONS,
+          suggestion: `Allowed commands: ${allowedCommands.join(', ')}`,
+        };
+      }
+      const refused = await checkCommandArguments(args, allowedCommands, cwd);
+      if (refused) {
+        return refused;
+      }
+
+      const timeoutMs = Math.min(timeoutSeconds ? timeoutSeconds * 1000 : defaultTimeoutMs, maxTimeoutMs);
+      console.log(`⚙️ Running: ${args.join(' ')}`);
+      const managed = tracker.start(args, { cwd, timeoutMs });
+      await tracker.waitForExit(managed, initialWaitMs);
+      const chunk = tracker.read(managed, outputChunkChars);
+      return { success: true, data: chunk, summary: describeChunk(chunk) };
+    }),
+  });
+
+  const readProcessOutput = tool({
+    name: TOOL_NAMES.READ_PROCESS_OUTPUT,
+    description: 'Read the next chunk of output of a command started with run_command',
+    parameters: z.object({
+      processId: z.string().describe('The processId returned by run_command, e.g. "proc-1"'),
+      waitSeconds: z.number().int().min(0).max(60).nullable().describe('Wait up to this many seconds for the command to finish first, or null not to wait'),
+    }),
+    execute: ({ processId, waitSeconds }) => runProcessOperation<ProcessOutputChunk>(async () => {
+      const managed = tracker.get(processId);
+      if (!managed) {
+        return { error: ERROR_MESSAGES.PROCESS_NOT_FOUND, details: processId };
+      }
+      if (waitSeconds) {
+        await tracker.waitForExit(managed, waitSeconds * 1000);
+      }
+      const chunk = tracker.read(managed, outputChunkChars);
+      return { success: true, data: chunk, summary: describeChunk(chunk) };
+    }),
+  });
+
+  const terminateProcess = tool({
+    name: TOOL_NAMES.TERMINATE_PROCESS,
+    description: 'Stop a command started with run_command. Only processes the agent started can be stopped. Requires user approval.',
+    parameters: z.object({
+      processId: z.string().describe('The processId returned by run_command, e.g. "proc-1"'),
+    }),
+    needsApproval: true,
+    execute: ({ processId }) => runProcessOperation<ProcessOutputChunk>(async () => {
+      const managed = tracker.get(processId);
+      if (!managed) {
+        return {
+          error: ERROR_MESSAGES.PROCESS_NOT_FOUND,
+          suggestion: 'Only commands started with run_command can be terminated.',
+          details: processId,
+        };
+      }
+      await tracker.terminate(managed);
+      const chunk = tracker.read(managed, outputChunkChars);
+      return { success: true, data: chunk, summary: describeChunk(chunk) };
+    }),
+  });
+
+  return { listProcesses: listProcessesTool, runCommand, readProcessOutput, terminateProcess };
+};
+
+/**
+ * Process management tools with the configured allowlist
+ */
+export const processManagementTools = createProcessManagementTools();
+
+/**
+ * Names of all process management tools, as registered in the tool registry
+ */
+export const PROCESS_MANAGEMENT_TOOL_NAMES: readonly string[] = [
+  TOOL_NAMES.LIST_PROCESSES,
+  TOOL_NAMES.RUN_COMMAND,
+  TOOL_NAMES.READ_PROCESS_OUTPUT,
+  TOOL_NAMES.TERMINATE_PROCESS,
+];
+
+/**
+ * Names of the process tools that start or stop processes and need approval
+ */
+export const PROCESS_APPROVAL_TOOL_NAMES: readonly string[] = [TOOL_NAMES.RUN_COMMAND, TOOL_NAMES.TERMINATE_PROCESS];
@@ -3,5 +3,159 @@
  * Handles server starting, stopping, and monitoring
  */
 
-// Placeholder - will be populated by Tools Agent
-export const serverManagementTools = {};
\ No newline at end of file
+import { tool } from '@openai/agents';
+import { z } from 'zod';
+import { ERROR_MESSAGES, SERVER_MANAGEMENT_CONFIG, TOOL_NAMES } from '../config';
+import { serverManager as defaultServerManager, ServerManager, ServerManagerError } from '../servers/server-manager';
+import type { ServerInfo, ServerToolError, ServerToolResponse } from '../types';
+
+/**
+ * Options for the server management tools
+ */
+export interface ServerManagementOptions {
+  manager?: ServerManager;
+}
+
+const toServerToolError = (error: any): ServerToolError => {
+  if (error instanceof ServerManagerError) {
+    return {
+      error: error.message,
+      ...(error.suggestion ? { suggestion: error.suggestion } : {}),
+      ...(error.details ? { details: error.details } : {}),
+    };
+  }
+  return { error: ERROR_MESSAGES.SERVER_OPERATION_ERROR, details: error?.message ?? String(error) };
+};
+
+/**
+ * Run a tool body and turn thrown errors into structured responses
+ */
+const runServerOperation = async <T>(operation: () => Promise<ServerToolResponse<T>>): Promise<ServerToolResponse<T>> => {
+  try {
+    return await operation();
+  } catch (error: any) {
+    console.error('Server operation error:', error.message);
+    return toServerToolError(error);
+  }
+};
+
+const describeServer = (info: ServerInfo): string => {
+  switch (info.status) {
+    case 'running':
+      return `${info.name} is running on port ${info.port} (${info.url}).`;
+    case 'starting':
+      return `${info.name} is starting on port ${info.port}.`;
+    case 'error':
+      return `${info.name} failed: ${(info.error ?? 'unknown error').replace(/\.$/, '')}.`;
+    default:
+      return `${info.name} is stopped.`;
+  }
+};
+
+const serverNameParameter = z.string().describe('Name of the dev server, as listed by list_dev_servers');
+
+/**
+ * Create the server management tools.
+ * Starting, stopping and restarting servers require approval before they happen.
+ */
+export const createServerManagementTools = (options: ServerManagementOptions = {}) => {
+  const manager = options.manager ?? defaultServerManager;
+
+  const listDevServers = tool({
+    name: TOOL_NAMES.LIST_DEV_SERVERS,
+    description: 'List the configured dev servers with their port, status and URL',
+    parameters: z.object({}),
+    execute: () => runServerOperation<ServerInfo[]>(async () => {
+      const servers = manager.getServers();
+      return {
+        success: true,
+        data: servers,
+        summary: servers.length > 0
+          ? servers.map(describeServer).join(' ')
+          : 'No dev servers are configured.',
+      };
+    }),
+  });
+
+  const startDevServer = tool({
+    name: TOOL_NAMES.START_DEV_SERVER,
+    description: 'Start a configured dev server and wait until it is ready. Requires user approval.',
+    parameters: z.object({ name: serverNameParameter }),
+    needsApproval: true,
+    execute: ({ name }) => runServerOperation<ServerInfo>(async () => {
+      console.log(`🖥️ Starting dev server: ${name}`);
+      const info = await manager.startServer(name);
+      return { success: true, data: info, summary: describeServer(info) };
+    }),
+  });
+
+  const stopDevServer = tool({
+    name: TOOL_NAMES.STOP_DEV_SERVER,
+    description: 'Stop a running dev server. Requires user approval.',
+    parameters: z.object({ name: serverNameParameter }),
+    needsApproval: true,
+    execute: ({ name }) => runServerOperation<ServerInfo>(async () => {
+      const info = await manager.stopServer(name);
+      return { success: true, data: info, summary: describeServer(info) };
+    }),
+  });
+
+  const restartDevServer = tool({
+    name: TOOL_NAMES.RESTART_DEV_SERVER,
+    description: 'Stop a dev server if it is running, start it again and wait until it is ready. Requires user approval.',
+    parameters: z.object({ name: serverNameParameter }),
+    needsApproval: true,
+    execute: ({ name }) => runServerOperation<ServerInfo>(async () => {
+      console.log(`🖥️ Restarting dev server: ${name}`);
+      const info = await manager.restartServer(name);
+      return { success: true, data: info, summary: describeServer(info) };
+    }),
+  });
+
+  const getServerLogs = tool({
+    name: TOOL_NAMES.GET_SERVER_LOGS,
+    description: 'Show the last log lines of a dev server',
+    parameters: z.object({
+      name: serverNameParameter,
+      lines: z.number().int().min(1).max(SERVER_MANAGEMENT_CONFIG.MAX_TAIL_LINES).nullable().describe(`Number of lines, or null for ${SERVER_MANAGEMENT_CONFIG.DEFAULT_TAIL_LINES}`),
+    }),
+    execute: ({ name, lines }) => runServerOperation<{ server: ServerInfo; lines: string[] }>(async () => {
+      const server = manager.getServerInfo(name);
+      const logLines = manager.tailLogs(name, lines ?? SERVER_MANAGEMENT_CONFIG.DEFAULT_TAIL_LINES);
+      return {
+        success: true,
+        data: { server, lines: logLines },
+        summary: logLines.length > 0
+          ? `Last ${logLines.length} log lines of ${name}. ${describeServer(server)}`
+          : `${name} has no logs yet. ${describeServer(server)}`,
+      };
+    }),
+  });
+
+  return { listDevServers, startDevServer, stopDevServer, restartDevServer, getServerLogs };
+};
+
+/**
+ * Server management tools for the servers in the dev servers file
+ */
+export const serverManagementTools = createServerManagementTools();
+
+/**
+ * Names of all server management tools, as registered in the tool registry
+ */
+export const SERVER_MANAGEMENT_TOOL_NAMES: readonly string[] = [
+  TOOL_NAMES.LIST_DEV_SERVERS,
+  TOOL_NAMES.START_DEV_SERVER,
+  TOOL_NAMES.STOP_DEV_SERVER,
+  TOOL_NAMES.RESTART_DEV_SERVER,
+  TOOL_NAMES.GET_SERVER_LOGS,
+];
+
+/**
+ * Names of the server tools that start or stop servers and need approval
+ */
+export const SERVER_APPROVAL_TOOL_NAMES: readonly string[] = [
+  TOOL_NAMES.START_DEV_SERVER,
+  TOOL_NAMES.STOP_DEV_SERVER,
+  TOOL_NAMES.RESTART_DEV_SERVER,
+];
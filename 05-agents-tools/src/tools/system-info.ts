@@ -3,5 +3,365 @@
  * Provides system and environment information
  */
 
-// Placeholder - will be populated by Tools Agent
-export const systemInfoTools = {};
\ No newline at end of file
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { tool } from '@openai/agents';
+import { z } from 'zod';
+import { ERROR_MESSAGES, SYSTEM_INFO_CONFIG, TOOL_NAMES, EnvironmentSchema } from '../config';
+import { listProcesses } from './process-management';
+import type {
+  DiskUsage,
+  EnvironmentCheck,
+  ListeningPort,
+  ProcessInfo,
+  SystemOverview,
+  SystemToolError,
+  SystemToolResponse,
+} from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Options for the system information tools
+ */
+export interface SystemInfoOptions {
+  /** Environment variables to check, defaults to the app's EnvironmentSchema */
+  environmentSchema?: z.AnyZodObject;
+  topProcesses?: number;
+}
+
+// Pseudo filesystems that say nothing about free disk space
+const VIRTUAL_FILESYSTEMS = ['tmpfs', 'devtmpfs', 'devfs', 'udev', 'shm', 'map', 'squashfs'];
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const round = (value: number, digits: number = 2): number => Number(value.toFixed(digits));
+
+/**
+ * Format a byte count for summaries, e.g. 1536 -> "1.5 KB"
+ */
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${round(value, 1)} ${units[unit]}`;
+};
+
+const runCommand = async (file: string, args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync(file, args, { timeout: SYSTEM_INFO_CONFIG.COMMAND_TIMEOUT_MS });
+  return stdout;
+};
+
+/**
+ * CPU, memory and OS details, with the busiest processes
+ */
+export const getSystemOverview = async (topProcesses: number = SYSTEM_INFO_CONFIG.TOP_PROCESSES): Promise<SystemOverview> => {
+  const cpuCount = os.availableParallelism ? os.availableParallelism() : os.cpus().length;
+  const [oneMinute, fiveMinutes, fifteenMinutes] = os.loadavg();
+  const totalBytes = os.totalmem();
+  const freeBytes = os.freemem();
+
+  let processes: SystemOverview['topProcesses'] = [];
+  try {
+    const listed: Omit<ProcessInfo, 'startedByAgent'>[] = await listProcesses();
+    processes = listed
+      .sort((a, b) => b.cpuPercent - a.cpuPercent)
+      .slice(0, topProcesses)
+      .map(({ pid, command, cpuPercent, memoryPercent }) => ({ pid, command, cpuPercent, memoryPercent }));
+  } catch {
+    // ps is not available (e.g. on Windows); the rest of the overview still applies
+  }
+
+  return {
+    os: {
+      platform: process.platform,
+      type: os.type(),
+      release: os.release(),
+      kernelVersion: os.version(),
+      arch: os.arch(),
+      hostname: os.hostname(),
+      uptimeSeconds: Math.round(os.uptime()),
+    },
+    cpu: {
+      model: os.cpus()[0]?.model ?? 'unknown',
+      count: cpuCount,
+      loadAverage: { oneMinute: round(oneMinute), fiveMinutes: round(fiveMinutes), fifteenMinutes: round(fifteenMinutes) },
+      loadPerCpu: round(oneMinute / cpuCount),
+    },
+    memory: {
+      totalBytes,
+      freeBytes,
+      usedBytes: totalBytes - freeBytes,
+      usedPercent: round(((totalBytes - freeBytes) / totalBytes) * 100, 1),
+    },
+    topProcesses: processes,
+  };
+};
+
+/**
+ * Disk usage per mounted filesystem, from df
+ */
+export const getDiskUsage = async (targetPath?: string): Promise<DiskUsage[]> => {
+  const stdout = await runCommand('df', ['-kP', ...(targetPath ? [targetPath] : [])]);
+  return stdout
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim().split(/\s+/))
+    .filter(columns => columns.length >= 6)
+    .map(([filesystem, total, used, available, , ...mountPoint]) => {
+      const totalBytes = Number(total) * 1024;
+      const usedBytes = Number(used) * 1024;
+      return {
+        filesystem,
+        mountPoint: mountPoint.join(' '),
+        totalBytes,
+        usedBytes,
+        availableBytes: Number(available) * 1024,
+        usedPercent: totalBytes > 0 ? round((usedBytes / totalBytes) * 100, 1) : 0,
+      };
+    })
+    .filter(disk => targetPath || (disk.totalBytes > 0 && !VIRTUAL_FILESYSTEMS.includes(disk.filesystem)));
+};
+
+/**
+ * Node and npm versions, and which environment variables are set (never their values)
+ */
+export const checkEnvironment = async (schema: z.AnyZodObject = EnvironmentSchema): Promise<EnvironmentCheck> => {
+  let npmVersion: string | null = null;
+  try {
+    npmVersion = (await runCommand(process.platform === 'win32' ? 'npm.cmd' : 'npm', ['--version'])).trim();
+  } catch {
+    // Reported as an issue below
+  }
+
+  const isSet = (name: string) => Boolean(process.env[name]?.trim());
+  const variables = Object.entries<z.ZodTypeAny>(schema.shape).map(([name, field]) => ({
+    name,
+    required: !field.isOptional(),
+    present: isSet(name),
+  }));
+
+  const issues: string[] = [];
+  const nodeMajorVersion = Number(process.versions.node.split('.')[0]);
+  if (nodeMajorVersion < SYSTEM_INFO_CONFIG.MIN_NODE_MAJOR_VERSION) {
+    issues.push(`Node.js ${process.version} is older than the required version ${SYSTEM_INFO_CONFIG.MIN_NODE_MAJOR_VERSION}`);
+  }
+  if (!npmVersion) {
+    issues.push('npm was not found on the PATH');
+  }
+  const parsed = schema.safeParse(process.env);
+  if (!parsed.success) {
+    const invalid = new Set(parsed.error.issues.map((issue: z.ZodIssue) => String(issue.path[0])));
+    for (const name of invalid) {
+      // Only the variable name: validation messages can echo the value
+      issues.push(isSet(name) ? `${name} has an invalid value` : `${name} is not set`);
+    }
+  }
+
+  return {
+    nodeVersion: process.version,
+    npmVersion,
+    variables,
+    issues,
+    ready: issues.length === 0,
+  };
+};
+
+/**
+ * Split "127.0.0.1:3000", "[::1]:3000" or "*:3000" into address and port
+ */
+const parseSocketAddress = (value: string): { address: string; port: number } | null => {
+  const separator = value.lastIndexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+  const port = Number(value.slice(separator + 1));
+  const address = value.slice(0, separator).replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  return Number.isInteger(port) ? { address, port } : null;
+};
+
+const listPortsWithSs = async (): Promise<ListeningPort[]> => {
+  const stdout = await runCommand('ss', ['-ltnpH']);
+  return stdout
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const socket = parseSocketAddress(line.trim().split(/\s+/)[3] ?? '');
+      const owner = line.match(/users:\(\("([^"]+)",pid=(\d+)/);
+      return socket && {
+        protocol: 'tcp' as const,
+        ...socket,
+        ...(owner ? { process: owner[1], pid: Number(owner[2]) } : {}),
+      };
+    })
+    .filter((port): port is ListeningPort => port !== null);
+};
+
+const listPortsWithLsof = async (): Promise<ListeningPort[]> => {
+  let stdout: string;
+  try {
+    stdout = await runCommand('lsof', ['-nP', '-iTCP', '-sTCP:LISTEN']);
+  } catch (error: any) {
+    // lsof exits with 1 when nothing is listening
+    if (error.code === 1) {
+      return [];
+    }
+    throw error;
+  }
+  return stdout
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim().split(/\s+/))
+    .filter(columns => columns.length >= 9)
+    .map(columns => {
+      const socket = parseSocketAddress(columns[columns.length - 2]);
+      return socket && { protocol: 'tcp' as const, ...socket, process: columns[0], pid: Number(columns[1]) };
+    })
+    .filter((port): port is ListeningPort => port !== null);
+};
+
+/**
+ * TCP ports listening locally, with the owning process when the system reveals it
+ */
+export const listListeningPorts = async (): Promise<ListeningPort[]> => {
+  let ports: ListeningPort[];
+  try {
+    ports = await listPortsWithSs();
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    ports = await listPortsWithLsof();
+  }
+  const unique = new Map(ports.map(port => [`${port.address}:${port.port}:${port.pid ?? ''}`, port]));
+  return Array.from(unique.values()).sort((a, b) => a.port - b.port);
+};
+
+const toSystemToolError = (error: any, unsupportedMessage?: string): SystemToolError => {
+  if (error?.code === 'ENOENT' && unsupportedMessage) {
+    return { error: unsupportedMessage };
+  }
+  return { error: ERROR_MESSAGES.SYSTEM_INFO_ERROR, details: error?.message ?? String(error) };
+};
+
+/**
+ * Run a tool body and turn thrown errors into structured responses
+ */
+const runSystemOperation = async <T>(
+  operation: () => Promise<SystemToolResponse<T>>,
+  unsupportedMessage?: string
+): Promise<SystemToolResponse<T>> => {
+  try {
+    return await operation();
+  } catch (error: any) {
+    console.error('System info error:', error.message);
+    return toSystemToolError(error, unsupportedMessage);
+  }
+};
+
+/**
+ * Create the system information tools. They only read information, so none needs approval.
+ */
+export const createSystemInfoTools = (options: SystemInfoOptions = {}) => {
+  const {
+    environmentSchema = EnvironmentSchema,
+    topProcesses = SYSTEM_INFO_CONFIG.TOP_PROCESSES,
+  } = options;
+
+  const getSystemOverviewTool = tool({
+    name: TOOL_NAMES.GET_SYSTEM_OVERVIEW,
+    description: 'Get the OS and kernel, CPU count and load, memory use and the busiest processes. Use it when the user asks why the machine is slow.',
+    parameters: z.object({}),
+    execute: () => runSystemOperation<SystemOverview>(async () => {
+      const overview = await getSystemOverview(topProcesses);
+      const busiest = overview.topProcesses[0];
+      return {
+        success: true,
+        data: overview,
+        summary: `${overview.os.type} ${overview.os.release} (${overview.os.arch}). `
+          + `Load ${overview.cpu.loadAverage.oneMinute} on ${plural(overview.cpu.count, 'CPU')} (${overview.cpu.loadPerCpu} per CPU). `
+          + `Memory ${overview.memory.usedPercent}% used (${formatBytes(overview.memory.usedBytes)} of ${formatBytes(overview.memory.totalBytes)}).`
+          + (busiest ? ` Busiest process: ${busiest.command} (${busiest.cpuPercent}% CPU).` : ''),
+      };
+    }),
+  });
+
+  const getDiskUsageTool = tool({
+    name: TOOL_NAMES.GET_DISK_USAGE,
+    description: 'Get total, used and free space per mounted disk',
+    parameters: z.object({
+      path: z.string().nullable().describe('Only the disk that contains this path, or null for all disks'),
+    }),
+    execute: ({ path }) => runSystemOperation<DiskUsage[]>(async () => {
+      const disks = await getDiskUsage(path ?? undefined);
+      const fullest = [...disks].sort((a, b) => b.usedPercent - a.usedPercent)[0];
+      return {
+        success: true,
+        data: disks,
+        summary: fullest
+          ? `${plural(disks.length, 'disk')}. Fullest: ${fullest.mountPoint} at ${fullest.usedPercent}% (${formatBytes(fullest.availableBytes)} free).`
+          : 'No disks found.',
+      };
+    }, ERROR_MESSAGES.SYSTEM_DISK_UNSUPPORTED),
+  });
+
+  const checkEnvironmentTool = tool({
+    name: TOOL_NAMES.CHECK_ENVIRONMENT,
+    description: 'Check the Node.js and npm versions and which environment variables of this workshop are set. Never returns their values.',
+    parameters: z.object({}),
+    execute: () => runSystemOperation<EnvironmentCheck>(async () => {
+      const check = await checkEnvironment(environmentSchema);
+      return {
+        success: true,
+        data: check,
+        summary: check.ready
+          ? `The environment is set up: Node.js ${check.nodeVersion}, npm ${check.npmVersion}, all required variables are set.`
+          : `Found ${plural(check.issues.length, 'problem')}: ${check.issues.join('; ')}.`,
+      };
+    }),
+  });
+
+  const listListeningPortsTool = tool({
+    name: TOOL_NAMES.LIST_LISTENING_PORTS,
+    description: 'List the TCP ports listening on this machine, with the process that owns each when available',
+    parameters: z.object({}),
+    execute: () => runSystemOperation<ListeningPort[]>(async () => {
+      const ports = await listListeningPorts();
+      const numbers = Array.from(new Set(ports.map(port => port.port)));
+      return {
+        success: true,
+        data: ports,
+        summary: numbers.length > 0
+          ? `Listening on ${plural(numbers.length, 'port')}: ${numbers.join(', ')}.`
+          : 'No ports are listening.',
+      };
+    }, ERROR_MESSAGES.SYSTEM_PORTS_UNSUPPORTED),
+  });
+
+  return {
+    getSystemOverview: getSystemOverviewTool,
+    getDiskUsage: getDiskUsageTool,
+    checkEnvironment: checkEnvironmentTool,
+    listListeningPorts: listListeningPortsTool,
+  };
+};
+
+/**
+ * System information tools for this workshop's environment
+ */
+export const systemInfoTools = createSystemInfoTools();
+
+/**
+ * Names of all system information tools, as registered in the tool registry
+ */
+export const SYSTEM_INFO_TOOL_NAMES: readonly string[] = [
+  TOOL_NAMES.GET_SYSTEM_OVERVIEW,
+  TOOL_NAMES.GET_DISK_USAGE,
+  TOOL_NAMES.CHECK_ENVIRONMENT,
+  TOOL_NAMES.LIST_LISTENING_PORTS,
+];
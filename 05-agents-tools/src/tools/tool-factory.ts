@@ -6,6 +6,30 @@
 import { tool } from '@openai/agents';
 import { z } from 'zod';
 import { weatherTool, createWeatherTool } from './weather-tool';
+import { forecastTool, createForecastTool } from './forecast-tool';
+import {
+  createFileOperationsTools,
+  fileOperationsTools,
+  FILE_WRITE_TOOL_NAMES,
+  type FileOperationsOptions,
+} from './file-operations';
+import {
+  createProcessManagementTools,
+  processManagementTools,
+  PROCESS_APPROVAL_TOOL_NAMES,
+  type ProcessManagementOptions,
+} from './process-management';
+import {
+  createServerManagementTools,
+  serverManagementTools,
+  SERVER_APPROVAL_TOOL_NAMES,
+  type ServerManagementOptions,
+} from './server-management';
+import {
+  createSystemInfoTools,
+  systemInfoTools,
+  type SystemInfoOptions,
+} from './system-info';
 
 /**
  * Tool registry for managing available tools
@@ -105,6 +129,78 @@ export class ToolFactory {
     return weatherToolInstance;
   }
 
+  /**
+   * Create a forecast tool
+   */
+  createForecastTool(options?: {
+    name?: string;
+    description?: string;
+    units?: 'metric' | 'imperial' | 'kelvin';
+  }): any {
+    const forecastToolInstance = createForecastTool(options);
+    const toolName = options?.name || 'forecast_tool';
+    this.registry.registerTool(toolName, forecastToolInstance, options);
+    return forecastToolInstance;
+  }
+
+  /**
+   * Create file operations tools confined to a workspace root
+   */
+  createFileOperationsTools(options?: FileOperationsOptions): any[] {
+    const tools: any[] = Object.values(createFileOperationsTools(options));
+    for (const fileTool of tools) {
+      this.registry.registerTool(fileTool.name, fileTool, {
+        ...options,
+        category: 'file-operations',
+        needsApproval: FILE_WRITE_TOOL_NAMES.includes(fileTool.name),
+      });
+    }
+    return tools;
+  }
+
+  /**
+   * Create process management tools limited to allowlisted commands
+   */
+  createProcessManagementTools(options?: ProcessManagementOptions): any[] {
+    const tools: any[] = Object.values(createProcessManagementTools(options));
+    for (const processTool of tools) {
+      this.registry.registerTool(processTool.name, processTool, {
+        ...options,
+        category: 'process-management',
+        needsApproval: PROCESS_APPROVAL_TOOL_NAMES.includes(processTool.name),
+      });
+    }
+    return tools;
+  }
+
+  /**
+   * Create dev server management tools, optionally for another server manager
+   */
+  createServerManagementTools(options?: ServerManagementOptions): any[] {
+    const tools: any[] = Object.values(createServerManagementTools(options));
+    for (const serverTool of tools) {
+      this.registry.registerTool(serverTool.name, serverTool, {
+        category: 'server-management',
+        needsApproval: SERVER_APPROVAL_TOOL_NAMES.includes(serverTool.name),
+      });
+    }
+    return tools;
+  }
+
+  /**
+   * Create read-only system information tools
+   */
+  createSystemInfoTools(options?: SystemInfoOptions): any[] {
+    const tools: any[] = Object.values(createSystemInfoTools(options));
+    for (const systemTool of tools) {
+      this.registry.registerTool(systemTool.name, systemTool, {
+        category: 'system-info',
+        needsApproval: false,
+      });
+    }
+    return tools;
+  }
+
   /**
    * Create a generic tool with custom parameters
    */
@@ -228,6 +324,13 @@ export const toolCreators = {
     return defaultToolFactory.createWeatherTool(options);
   },
 
+  /**
+   * Create a forecast tool with default configuration
+   */
+  forecast: () => {
+    return defaultToolFactory.createForecastTool();
+  },
+
   /**
    * Create a text processing tool
    */
@@ -262,6 +365,45 @@ export const initializeDefaultTools = (): void => {
     description: 'Get current weather information for a specific city or location',
     units: 'metric'
   });
+
+  // Register the default forecast tool
+  defaultToolRegistry.registerTool('forecast', forecastTool, {
+    name: 'get_forecast',
+    description: 'Get daily forecast summaries for the next 5 days for a specific city or location',
+    units: 'metric'
+  });
+
+  // Register the file operations tools for the configured workspace root
+  for (const fileTool of Object.values<any>(fileOperationsTools)) {
+    defaultToolRegistry.registerTool(fileTool.name, fileTool, {
+      category: 'file-operations',
+      needsApproval: FILE_WRITE_TOOL_NAMES.includes(fileTool.name),
+    });
+  }
+
+  // Register the process management tools for the configured allowlist
+  for (const processTool of Object.values<any>(processManagementTools)) {
+    defaultToolRegistry.registerTool(processTool.name, processTool, {
+      category: 'process-management',
+      needsApproval: PROCESS_APPROVAL_TOOL_NAMES.includes(processTool.name),
+    });
+  }
+
+  // Register the dev server tools for the servers in the dev servers file
+  for (const serverTool of Object.values<any>(serverManagementTools)) {
+    defaultToolRegistry.registerTool(serverTool.name, serverTool, {
+      category: 'server-management',
+      needsApproval: SERVER_APPROVAL_TOOL_NAMES.includes(serverTool.name),
+    });
+  }
+
+  // Register the read-only system information tools
+  for (const systemTool of Object.values<any>(systemInfoTools)) {
+    defaultToolRegistry.registerTool(systemTool.name, systemTool, {
+      category: 'system-info',
+      needsApproval: false,
+    });
+  }
 };
 
 /**
@@ -278,6 +420,11 @@ export const createToolBundle = (toolNames: string[]): any[] => {
  */
 export const commonTools = {
   weather: weatherTool,
+  forecast: forecastTool,
+  ...fileOperationsTools,
+  ...processManagementTools,
+  ...serverManagementTools,
+  ...systemInfoTools,
   // Add more common tools here as they are created
 };
 
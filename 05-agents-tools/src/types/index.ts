@@ -77,11 +77,176 @@ export interface ToolResult {
   error?: string;
 }
 
+// File operation tool response types
+export interface FileToolSuccess<T> {
+  success: true;
+  data: T;
+  summary: string;
+}
+
+export interface FileToolError {
+  error: string;
+  suggestion?: string;
+  details?: string;
+}
+
+export type FileToolResponse<T> = FileToolSuccess<T> | FileToolError;
+
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size?: number;
+}
+
+export interface GrepMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+// Process management tool response types
+export interface ProcessToolSuccess<T> {
+  success: true;
+  data: T;
+  summary: string;
+}
+
+export interface ProcessToolError {
+  error: string;
+  instructions?: string;
+  suggestion?: string;
+  details?: string;
+}
+
+export type ProcessToolResponse<T> = ProcessToolSuccess<T> | ProcessToolError;
+
+// Process management types
+export interface ProcessInfo {
+  pid: number;
+  command: string;
+  args: string;
+  cpuPercent: number;
+  memoryPercent: number;
+  startedByAgent: boolean;
+}
+
+export type ManagedProcessStatus = 'running' | 'exited' | 'timed_out' | 'terminated' | 'failed';
+
+export interface ProcessOutputChunk {
+  processId: string;
+  pid?: number;
+  command: string;
+  status: ManagedProcessStatus;
+  exitCode: number | null;
+  output: string;
+  /** Characters dropped before this chunk because the buffer was full */
+  skippedChars: number;
+  /** Characters still waiting to be read */
+  remainingChars: number;
+}
+
 // Server information interface
 export interface ServerInfo {
   name: string;
   port: number;
-  status: 'running' | 'stopped' | 'error';
+  status: 'starting' | 'running' | 'stopped' | 'error';
+  command?: string;
+  pid?: number;
+  url?: string;
+  startedAt?: string;
+  exitCode?: number | null;
+  error?: string;
+}
+
+// Server management tool response types
+export interface ServerToolSuccess<T> {
+  success: true;
+  data: T;
+  summary: string;
+}
+
+export interface ServerToolError {
+  error: string;
+  instructions?: string;
+  suggestion?: string;
+  details?: string;
+}
+
+export type ServerToolResponse<T> = ServerToolSuccess<T> | ServerToolError;
+
+// System information tool response types
+export interface SystemToolSuccess<T> {
+  success: true;
+  data: T;
+  summary: string;
+}
+
+export interface SystemToolError {
+  error: string;
+  instructions?: string;
+  suggestion?: string;
+  details?: string;
+}
+
+export type SystemToolResponse<T> = SystemToolSuccess<T> | SystemToolError;
+
+// System information types
+export interface SystemOverview {
+  os: {
+    platform: string;
+    type: string;
+    release: string;
+    kernelVersion: string;
+    arch: string;
+    hostname: string;
+    uptimeSeconds: number;
+  };
+  cpu: {
+    model: string;
+    count: number;
+    loadAverage: { oneMinute: number; fiveMinutes: number; fifteenMinutes: number };
+    /** One-minute load divided by the CPU count; above 1 means processes wait for a CPU */
+    loadPerCpu: number;
+  };
+  memory: {
+    totalBytes: number;
+    freeBytes: number;
+    usedBytes: number;
+    usedPercent: number;
+  };
+  topProcesses: Array<{ pid: number; command: string; cpuPercent: number; memoryPercent: number }>;
+}
+
+export interface DiskUsage {
+  filesystem: string;
+  mountPoint: string;
+  totalBytes: number;
+  usedBytes: number;
+  availableBytes: number;
+  usedPercent: number;
+}
+
+export interface EnvironmentVariableStatus {
+  name: string;
+  required: boolean;
+  present: boolean;
+}
+
+export interface EnvironmentCheck {
+  nodeVersion: string;
+  npmVersion: string | null;
+  variables: EnvironmentVariableStatus[];
+  /** Problems found, without the values of the variables */
+  issues: string[];
+  ready: boolean;
+}
+
+export interface ListeningPort {
+  protocol: 'tcp';
+  address: string;
+  port: number;
+  pid?: number;
+  process?: string;
 }
 
 // Agent configuration interface
@@ -201,10 +366,17 @@ export type {
   AgentConfig as SchemaAgentConfig,
   WeatherConfig as SchemaWeatherConfig,
   MCPServerConfig as SchemaMCPServerConfig,
+  DevServerConfig,
   AppConfig as SchemaAppConfig,
   ConversationContext as SchemaConversationContext,
   WeatherAPIResponse as SchemaWeatherAPIResponse,
   WeatherToolResponse as SchemaWeatherToolResponse,
+  ForecastAPIResponse,
+  // The forecast tool returns what ForecastToolResponseSchema parses, so its types come from the schema
+  DailyForecast,
+  ForecastData,
+  ForecastToolResponse,
+  ForecastToolResponse as SchemaForecastToolResponse,
   QueryClassification as SchemaQueryClassification,
   ToolExecutionResult as SchemaToolExecutionResult,
   RunnerOptions as SchemaRunnerOptions,
@@ -24,6 +24,10 @@ export class CLIInterface {
       console.log('  • 📚 Documentation Tool - Limited to web search fallback');
     }
     
+    console.log('  • 📁 File Tools - List, read, search and edit files in the workspace (edits need your approval)');
+    console.log('  • ⚙️ Process Tools - List processes and run allowlisted commands (running and stopping need your approval)');
+    console.log('  • 🖥️ Dev Server Tools - Start, stop and restart configured dev servers and read their logs');
+    console.log('  • 📊 System Info Tools - Check CPU, memory, disks, ports and the environment setup');
     console.log('  • 💬 General Chat - Have conversations without tools');
     console.log('');
     
@@ -66,6 +70,14 @@ export class CLIInterface {
     console.log('   Get a free key at: https://openweathermap.org/api\n');
   }
 
+  /**
+   * Show a tool call that needs approval
+   */
+  showApprovalRequest(toolName: string, args: string): void {
+    console.log(`\n🔐 The agent wants to run ${toolName} with:`);
+    console.log(`   ${args}`);
+  }
+
   /**
    * Show MCP server connection status
    */
@@ -5,6 +5,7 @@
 
 export { CLIInterface } from './cli-interface';
 export { ErrorHandler } from './error-handler';
+export { isWindows, killOnExit, signalProcessGroup, terminateProcessGroup } from './process-group';
 
 // Existing utility functions
 export function formatError(error: Error): string {
@@ -0,0 +1,72 @@
+/**
+ * Process group helpers
+ * Shared by the process tracker and the dev server manager, which both start detached children
+ */
+
+import type { ChildProcess } from 'child_process';
+
+/**
+ * Windows has no process groups, so children are started attached and signalled directly
+ */
+export const isWindows = process.platform === 'win32';
+
+export const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const liveChildren: Set<ChildProcess> = new Set();
+let exitHookInstalled = false;
+
+/**
+ * Signal a child and its process group; a child that is already gone is ignored
+ */
+export const signalProcessGroup = (child: ChildProcess, signal: NodeJS.Signals): void => {
+  const { pid } = child;
+  try {
+    if (!isWindows && pid !== undefined) {
+      process.kill(-pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch (error: any) {
+    if (error.code !== 'ESRCH') {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Stop a child: SIGTERM first, SIGKILL if it is still running after the grace period
+ */
+export const terminateProcessGroup = async (
+  child: ChildProcess,
+  exited: Promise<void>,
+  gracePeriodMs: number,
+  isRunning: () => boolean = () => child.exitCode === null && child.signalCode === null
+): Promise<void> => {
+  signalProcessGroup(child, 'SIGTERM');
+  await Promise.race([exited, wait(gracePeriodMs)]);
+  if (isRunning()) {
+    signalProcessGroup(child, 'SIGKILL');
+    await Promise.race([exited, wait(gracePeriodMs)]);
+  }
+};
+
+/**
+ * Detached children outlive the agent, so kill the ones still running when it exits
+ */
+export const killOnExit = (child: ChildProcess): void => {
+  liveChildren.add(child);
+  child.once('close', () => liveChildren.delete(child));
+  if (exitHookInstalled) {
+    return;
+  }
+  exitHookInstalled = true;
+  process.on('exit', () => {
+    for (const live of liveChildren) {
+      try {
+        signalProcessGroup(live, 'SIGKILL');
+      } catch {
+        // The child is gone or cannot be signalled; nothing left to do on exit
+      }
+    }
+  });
+};